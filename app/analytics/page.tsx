@@ -149,6 +149,9 @@ export default function AnalyticsPage() {
                 )}
                 {stats?.revenueGrowth ? `${stats.revenueGrowth.toFixed(1)}%` : "0%"} from last period
               </p>
+              {!!stats?.totalRefunded && (
+                <p className="text-muted-foreground text-xs">Net of {formatCurrency(stats.totalRefunded)} refunded</p>
+              )}
             </CardContent>
           </Card>
 
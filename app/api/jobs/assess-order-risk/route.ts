@@ -0,0 +1,56 @@
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+// Orders from this many days back are rescored, since new orders and failed payments from the
+// same customer change their score
+const RISK_WINDOW_DAYS = 7;
+
+// Orders scored per run; the newest are scored first
+const MAX_ORDERS_PER_RUN = 200;
+
+/**
+ * Scheduled job that scores recent orders that haven't shipped, so every order is assessed (and
+ * held when high risk) whether or not an admin opens it. Only orders whose score changed are
+ * written.
+ *
+ * Call with `Authorization: Bearer <CRON_SECRET>`, e.g. from Vercel Cron or any scheduler.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json({ success: false, message: "Job is not configured" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const since = new Date(Date.now() - RISK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const orders = await ServerOrderService.getRecentOpenOrders(since, MAX_ORDERS_PER_RUN);
+
+    const summary = { checked: orders.length, changed: 0, failed: 0 };
+    for (const order of orders) {
+      try {
+        if (await ServerOrderService.assessOrderRisk(order.id, { source: "risk_assessment" })) {
+          summary.changed++;
+        }
+      } catch (error) {
+        console.error(`Failed to assess risk for order ${order.orderId}:`, error);
+        summary.failed++;
+      }
+    }
+
+    return NextResponse.json({ success: true, message: "Risk assessment job completed", data: summary });
+  } catch (error) {
+    console.error("Assess order risk job error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to run risk assessment job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * One-off job that writes "unfulfilled" on orders created before fulfillment tracking, so the
+ * Unfulfilled and Awaiting shipment filters and the dashboard's To Fulfill count include them.
+ * Safe to run again; orders that already have a fulfillment status are left alone.
+ *
+ * Call with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json({ success: false, message: "Job is not configured" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await ServerOrderService.backfillFulfillmentStatus();
+    return NextResponse.json({ success: true, message: "Fulfillment status backfill completed", data: summary });
+  } catch (error) {
+    console.error("Backfill fulfillment status job error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to backfill fulfillment status",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { BILL_EXPIRY_DAYS } from "@/lib/orderConstants";
+import { getOrderPaymentProvider } from "@/lib/paymentGateway";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/paymentProvider";
+import { GatewayPayment } from "@/lib/paymentReconciliation";
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+// Orders handled per run; anything left over is picked up by the next run
+const MAX_ORDERS_PER_RUN = 100;
+
+/**
+ * Scheduled job that expires pending orders whose bill has passed its expiry.
+ * Each order is checked with its payment provider first, so a payment whose callback never arrived
+ * is recorded as paid instead of being expired. Safe to run repeatedly: only orders that
+ * are still pending are touched, and each one is re-checked inside its own transaction.
+ *
+ * Call with `Authorization: Bearer <CRON_SECRET>`, e.g. from Vercel Cron or any scheduler.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json({ success: false, message: "Job is not configured" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const cutoff = new Date(Date.now() - BILL_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+    const orders = await ServerOrderService.getStalePendingOrders(cutoff, MAX_ORDERS_PER_RUN);
+
+    const summary = { checked: orders.length, expired: 0, paid: 0, skipped: 0, failed: 0 };
+
+    for (const order of orders) {
+      try {
+        const provider = getOrderPaymentProvider(order);
+        const payment: GatewayPayment = order.billCode
+          ? await provider.getBillPayment(order.billCode)
+          : { state: "none" };
+
+        if (payment.state === "paid") {
+          await ServerOrderService.updateOrderPaymentStatus(
+            order.id,
+            {
+              status: "success",
+              transactionId: payment.transactionId,
+              billCode: order.billCode,
+              paidAmount: payment.amount,
+              provider: provider.id,
+            },
+            {
+              source: "expiry_job",
+              note: `Payment found on ${PAYMENT_PROVIDER_LABELS[provider.id]} while checking for expiry`,
+            },
+          );
+          summary.paid++;
+          continue;
+        }
+
+        // A payment still being processed might yet succeed; leave it for the next run
+        if (payment.state === "pending") {
+          summary.skipped++;
+          continue;
+        }
+
+        const reason = order.billCode
+          ? `Bill ${order.billCode} expired after ${BILL_EXPIRY_DAYS} days with no successful payment on ${PAYMENT_PROVIDER_LABELS[provider.id]}`
+          : `No payment received within ${BILL_EXPIRY_DAYS} days and no bill was created`;
+        const expired = await ServerOrderService.expireOrder(order.id, reason, cutoff);
+        if (expired) {
+          summary.expired++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (error) {
+        // Leave the order pending so the next run retries it
+        console.error(`Failed to check order ${order.orderId} for expiry:`, error);
+        summary.failed++;
+      }
+    }
+
+    return NextResponse.json({ success: true, message: "Expiry job completed", data: summary });
+  } catch (error) {
+    console.error("Expire orders job error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to run expiry job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { RECONCILIATION_WINDOW_DAYS } from "@/lib/paymentReconciliation";
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+// Orders checked per run; the newest are checked first
+const MAX_ORDERS_PER_RUN = 500;
+
+/**
+ * Scheduled job that compares recent orders with their ToyyibPay bills and stores the
+ * discrepancies for review on the reconciliation page. Nothing is changed on the orders;
+ * an admin applies each fix from the page.
+ *
+ * Call with `Authorization: Bearer <CRON_SECRET>`, e.g. from Vercel Cron or any scheduler.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json({ success: false, message: "Job is not configured" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const since = new Date(Date.now() - RECONCILIATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const run = await ServerOrderService.runPaymentReconciliation(since, MAX_ORDERS_PER_RUN, "Scheduled job");
+
+    return NextResponse.json({
+      success: true,
+      message: "Reconciliation job completed",
+      data: {
+        runId: run.id,
+        checked: run.checked,
+        failed: run.failed,
+        discrepancies: run.discrepancies.length,
+        complete: run.complete,
+      },
+    });
+  } catch (error) {
+    console.error("Reconcile payments job error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to run reconciliation job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  buildExportRows,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportLayout,
+  getExportColumns,
+  getExportFileName,
+  serializeExport,
+} from "@/lib/orderExport";
+import { filtersFromSearchParams } from "@/lib/orderFilters";
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+// Upper bound on orders read per export; narrow the filters to export more
+const MAX_EXPORT_ORDERS = 10000;
+
+/**
+ * Export orders as XLSX, CSV or JSON. Filters are read from the query string in the same format as
+ * the orders page URL; the body picks the format, layout, columns and optionally specific orders.
+ * `dateFrom` and `dateTo` in the body (ISO timestamps) replace the query's dates, which name whole
+ * days and would otherwise be cut at the server's midnight.
+ *
+ * Call with `Authorization: Bearer <Firebase ID token>` of an admin.
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get("authorization")?.replace(/^Bearer /, "");
+  if (!idToken || !(await ServerOrderService.isAdminToken(idToken))) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ success: false, message: "Invalid request body" }, { status: 400 });
+    }
+    const { format, layout, columns, orderIds, dateFrom, dateTo } = body as {
+      format: ExportFormat;
+      layout: ExportLayout;
+      columns: string[];
+      orderIds?: string[];
+      dateFrom?: string;
+      dateTo?: string;
+    };
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ success: false, message: "Invalid export format" }, { status: 400 });
+    }
+    if (layout !== "orders" && layout !== "items") {
+      return NextResponse.json({ success: false, message: "Invalid export layout" }, { status: 400 });
+    }
+
+    const exportColumns = getExportColumns(layout, Array.isArray(columns) ? columns : []);
+    if (exportColumns.length === 0) {
+      return NextResponse.json({ success: false, message: "Choose at least one column" }, { status: 400 });
+    }
+
+    if (orderIds !== undefined && !(Array.isArray(orderIds) && orderIds.every((id) => typeof id === "string"))) {
+      return NextResponse.json({ success: false, message: "orderIds must be a list of order IDs" }, { status: 400 });
+    }
+
+    const selectedOnly = Array.isArray(orderIds);
+    let orders;
+    if (selectedOnly) {
+      if (orderIds.length > MAX_EXPORT_ORDERS) {
+        return NextResponse.json({ success: false, message: "Too many orders selected" }, { status: 400 });
+      }
+      orders = await ServerOrderService.getOrdersByIds(orderIds);
+    } else {
+      const filters = filtersFromSearchParams(request.nextUrl.searchParams);
+      const from = dateFrom ? new Date(dateFrom) : null;
+      const to = dateTo ? new Date(dateTo) : null;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return NextResponse.json({ success: false, message: "Invalid date range" }, { status: 400 });
+      }
+      if (from) filters.dateFrom = from;
+      if (to) filters.dateTo = to;
+
+      const result = await ServerOrderService.getOrdersForExport(filters, MAX_EXPORT_ORDERS);
+      if (!result.complete) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `More than ${MAX_EXPORT_ORDERS} orders match. Narrow the date range or filters and try again.`,
+          },
+          { status: 400 },
+        );
+      }
+      orders = result.orders;
+    }
+
+    if (orders.length === 0) {
+      return NextResponse.json({ success: false, message: "No orders to export" }, { status: 404 });
+    }
+
+    const rows = buildExportRows(orders, layout, exportColumns);
+    const { body: file, contentType } = serializeExport(rows, exportColumns, format);
+    const fileName = getExportFileName(format, layout, selectedOnly);
+
+    return new NextResponse(file, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Order export error:", error);
+    return NextResponse.json({ success: false, message: "Failed to export orders" }, { status: 500 });
+  }
+}
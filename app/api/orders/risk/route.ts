@@ -0,0 +1,36 @@
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Score an order's fraud risk now, e.g. right after an admin creates it or when they ask for a
+ * re-assessment. Orders are otherwise scored by the payment callback and the risk job.
+ *
+ * Call with `Authorization: Bearer <Firebase ID token>` of an admin and a body of `{ orderDocId }`.
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get("authorization")?.replace(/^Bearer /, "");
+  const admin = idToken ? await ServerOrderService.getAdminFromToken(idToken) : null;
+  if (!admin) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { orderDocId } = (await request.json()) as { orderDocId?: string };
+    if (!orderDocId) {
+      return NextResponse.json({ success: false, message: "orderDocId is required" }, { status: 400 });
+    }
+
+    const changed = await ServerOrderService.assessOrderRisk(orderDocId, { source: "admin", ...admin });
+    return NextResponse.json({
+      success: true,
+      message: changed ? "Risk re-assessed" : "Risk is unchanged",
+      data: { changed },
+    });
+  } catch (error) {
+    console.error("Assess order risk error:", error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : "Failed to assess order risk" },
+      { status: 500 },
+    );
+  }
+}
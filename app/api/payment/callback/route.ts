@@ -1,137 +1,190 @@
+import { PaymentEventResult } from "@/lib/paymentEvents";
+import { findPaymentProvider } from "@/lib/paymentGateway";
+import { PAYMENT_PROVIDER_LABELS, PaymentProviderId } from "@/lib/paymentProvider";
 import { ServerOrderService } from "@/lib/serverOrderService";
 import { NextRequest, NextResponse } from "next/server";
 
+/**
+ * Find the order a verified callback is for. The bill code and provider must be the ones the order
+ * was billed with, so a genuine callback for one bill can't be replayed against a different order.
+ * Orders that don't record a provider were billed by ToyyibPay. `superseded` is true for a bill that
+ * was replaced by a newer payment link, which the customer may still have paid.
+ */
+async function findOrderForBill(orderId: string, billCode: string, providerId: PaymentProviderId) {
+  const order = await ServerOrderService.getOrderByOrderId(orderId);
+  if (!order) {
+    return { order: null, reason: `Order ${orderId} not found` };
+  }
+  if ((order.paymentProvider ?? "toyyibpay") !== providerId) {
+    return { order: null, reason: `Order ${orderId} was not billed by ${PAYMENT_PROVIDER_LABELS[providerId]}` };
+  }
+  const superseded = order.billCode !== billCode && !!order.billCodes?.includes(billCode);
+  if (order.billCode && order.billCode !== billCode && !superseded) {
+    return { order: null, reason: `Bill ${billCode} was not issued for order ${orderId}` };
+  }
+  return { order, superseded, reason: null };
+}
+
+/**
+ * Payment callback. ToyyibPay posts here directly; other providers add `?provider=<id>`. Every
+ * callback is logged as a payment event before anything else happens, and processing is
+ * idempotent: retries of a callback that was already applied are acknowledged without touching
+ * the order again. Invalid and unverified callbacks get a 4xx; a 5xx means the callback couldn't
+ * be checked with the gateway or the order couldn't be updated, and the gateway should retry.
+ */
 export async function POST(request: NextRequest) {
+  let eventId: string | null = null;
+
+  // Record the outcome on the payment event and answer the gateway
+  const respond = async (
+    result: PaymentEventResult,
+    message: string,
+    status: number = 200,
+    data?: Record<string, unknown>,
+  ) => {
+    if (eventId) await ServerOrderService.resolvePaymentEvent(eventId, result, message);
+    return NextResponse.json({ success: status < 400, message, ...(data && { data }) }, { status });
+  };
+
+  const provider = findPaymentProvider(request.nextUrl.searchParams.get("provider") ?? "toyyibpay");
+  if (!provider) {
+    return NextResponse.json({ success: false, message: "Unknown payment provider" }, { status: 404 });
+  }
+
   try {
-    // ToyyibPay sends callbacks as multipart/form-data
+    // Gateways send callbacks as multipart/form-data
     const formData = await request.formData();
     const payload = Object.fromEntries(Array.from(formData.entries()).map(([key, value]) => [key, value.toString()]));
 
-    const { refno, status, reason, billcode, order_id, amount, transaction_time } = payload;
+    const callback = provider.parseCallback(payload);
+    const { orderId, billCode, transactionId, eventKey } = callback;
 
-    // Basic validation - ensure required fields are present
-    if (!refno || !status || !billcode || !order_id) {
-      console.error("Missing required callback parameters");
-      return NextResponse.json(
-        {
-          success: false,
-          message: "Missing required callback parameters",
-        },
-        { status: 400 },
-      );
+    eventId = await ServerOrderService.logPaymentEvent({
+      provider: provider.id,
+      dedupeKey: eventKey,
+      orderId,
+      billCode,
+      refno: transactionId,
+      status: payload.status ?? null,
+      payload,
+    });
+
+    if (callback.error || !orderId || !billCode || !transactionId || !callback.status) {
+      const message = callback.error ?? "Missing required callback parameters";
+      console.error(message);
+      return respond("rejected", message, 400);
     }
 
-    // Validate status is a valid value (1=success, 2=pending, 3=fail)
-    const validStatuses = ["1", "2", "3"];
-    if (!validStatuses.includes(status.toString())) {
-      console.error("Invalid payment status:", status);
+    // Anyone can POST to this route, so nothing is trusted until the gateway confirms it
+    const verification = await provider.verifyCallback(payload);
+    if (!verification.verified && verification.unavailable) {
+      console.error(`Could not verify ${PAYMENT_PROVIDER_LABELS[provider.id]} callback:`, verification.reason);
+      // Not a rejection: the event stays unprocessed so the gateway's retry is checked again
+      if (eventId) await ServerOrderService.resolvePaymentEvent(eventId, "failed", verification.reason);
       return NextResponse.json(
-        {
-          success: false,
-          message: "Invalid payment status",
-        },
-        { status: 400 },
+        { success: false, message: "Callback could not be checked, retry later" },
+        { status: 503 },
       );
     }
+    if (!verification.verified) {
+      console.warn(`Rejected unverified ${PAYMENT_PROVIDER_LABELS[provider.id]} callback:`, {
+        reason: verification.reason,
+        orderId,
+        billCode,
+        transactionId,
+        status: callback.status,
+        ip: request.headers.get("x-forwarded-for"),
+      });
+      if (eventId) await ServerOrderService.resolvePaymentEvent(eventId, "rejected", verification.reason);
+      return NextResponse.json({ success: false, message: "Callback could not be verified" }, { status: 401 });
+    }
 
-    // Validate amount is a number
-    if (amount && isNaN(parseFloat(amount.toString()))) {
-      console.error("Invalid amount format:", amount);
-      return NextResponse.json(
-        {
-          success: false,
-          message: "Invalid amount format",
-        },
-        { status: 400 },
+    if (callback.status === "pending") {
+      return respond("ignored", "Payment is pending", 200, { orderId, transactionId, status: "pending" });
+    }
+
+    const { order, superseded, reason: notFoundReason } = await findOrderForBill(orderId, billCode, provider.id);
+    if (!order) {
+      console.warn(`Rejected ${PAYMENT_PROVIDER_LABELS[provider.id]} callback: ${notFoundReason}`);
+      return respond("rejected", notFoundReason, 404);
+    }
+    // A failed attempt on an old bill says nothing about the order's current payment link
+    if (superseded && callback.status === "failed") {
+      return respond("ignored", `Payment failed on superseded bill ${billCode}`, 200, {
+        orderId,
+        status: "failed",
+        reason: callback.reason,
+      });
+    }
+
+    // The amount confirmed with the gateway wins over the one in the callback
+    const paidAmount = verification.amount ?? callback.amount;
+
+    let result;
+    try {
+      result = await ServerOrderService.updateOrderPaymentStatus(
+        order.id,
+        callback.status === "success"
+          ? {
+              status: "success",
+              transactionId,
+              // Money taken on a replaced bill is still recorded; the total check holds the order
+              // when the old bill was for a different amount
+              ...(!superseded && { billCode }),
+              notes: `Payment completed at ${callback.transactionTime}${superseded ? ` on superseded bill ${billCode}` : ""}. Amount: RM${paidAmount?.toFixed(2) ?? "unknown"}`,
+              eventKey,
+              paidAmount,
+              provider: provider.id,
+            }
+          : {
+              status: "failed",
+              billCode,
+              notes: `Payment failed: ${callback.reason}`,
+              eventKey,
+              provider: provider.id,
+            },
+        { source: "payment_callback", actorName: `${PAYMENT_PROVIDER_LABELS[provider.id]} callback` },
       );
+    } catch (error) {
+      console.error(`Failed to update order ${orderId}:`, error);
+      // Tell the gateway to retry; the event stays unprocessed so the retry is applied
+      return respond("failed", error instanceof Error ? error.message : "Failed to update order", 500);
     }
 
-    // Process payment based on status
-    if (status === "1") {
+    // A payment changes the customer's risk signals, so their orders that haven't shipped are rescored
+    if (result === "applied" || result === "held") {
       try {
-        // Find and update order in Firestore
-        const order = await ServerOrderService.getOrderByOrderId(order_id);
-        if (order) {
-          await ServerOrderService.updateOrderPaymentStatus(order.id!, {
-            status: "success",
-            transactionId: refno,
-            billCode: billcode,
-            notes: `Payment completed at ${transaction_time}. Amount: ${amount}`,
-          });
-        } else {
-          console.warn(`Order ${order_id} not found in database`);
-        }
+        await ServerOrderService.assessCustomerOrdersRisk(order.userId, { source: "risk_assessment" });
       } catch (error) {
-        console.error(`Failed to update order ${order_id}:`, error);
-        // Continue processing even if database update fails
+        // The payment is recorded either way; the risk job rescores these orders later
+        console.error(`Failed to assess risk after payment on order ${orderId}:`, error);
       }
+    }
 
-      return NextResponse.json({
-        success: true,
-        message: "Payment processed successfully",
-        data: {
-          orderId: order_id,
-          transactionId: refno,
-          status: "success",
-        },
-      });
-    } else if (status === "2") {
-      return NextResponse.json({
-        success: true,
-        message: "Payment is pending",
-        data: {
-          orderId: order_id,
-          transactionId: refno,
-          status: "pending",
-        },
-      });
-    } else if (status === "3") {
-      try {
-        // Find and update order in Firestore
-        const order = await ServerOrderService.getOrderByOrderId(order_id);
-        if (order) {
-          await ServerOrderService.updateOrderPaymentStatus(order.id!, {
-            status: "failed",
-            billCode: billcode,
-            notes: `Payment failed: ${reason}`,
-          });
-        } else {
-          console.warn(`Order ${order_id} not found in database`);
-        }
-      } catch (error) {
-        console.error(`Failed to update order ${order_id}:`, error);
-        // Continue processing even if database update fails
-      }
+    const data =
+      callback.status === "success"
+        ? { orderId, transactionId, status: "success" }
+        : { orderId, status: "failed", reason: callback.reason };
 
-      return NextResponse.json({
-        success: true,
-        message: "Payment failed",
-        data: {
-          orderId: order_id,
-          status: "failed",
-          reason: reason,
-        },
-      });
-    } else {
-      return NextResponse.json({
-        success: false,
-        message: "Unknown payment status",
-        data: {
-          orderId: order_id,
-          status: "unknown",
-        },
-      });
+    if (result === "duplicate") {
+      return respond("duplicate", "Callback was already processed", 200, data);
     }
+    if (result === "held") {
+      console.warn(`Order ${orderId} put on hold: paid RM${paidAmount} but the order total is RM${order.totalAmount}`);
+      return respond("processed", "Payment recorded; order held for amount mismatch", 200, data);
+    }
+    if (result === "ignored") {
+      return respond("ignored", "Order is already paid; failed attempt ignored", 200, data);
+    }
+    return respond(
+      "processed",
+      callback.status === "success" ? "Payment processed successfully" : "Payment failed",
+      200,
+      data,
+    );
   } catch (error) {
     console.error("Payment callback error:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        message: "Internal server error",
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    );
+    return respond("failed", error instanceof Error ? error.message : "Internal server error", 500);
   }
 }
 
@@ -0,0 +1,35 @@
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { getActivePaymentProvider } from "@/lib/paymentGateway";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/paymentProvider";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * The payment provider and mode the server is running in, for the admin header. An invalid
+ * configuration is reported rather than thrown so the dashboard can show it.
+ *
+ * Call with `Authorization: Bearer <Firebase ID token>` of an admin.
+ */
+export async function GET(request: NextRequest) {
+  const idToken = request.headers.get("authorization")?.replace(/^Bearer /, "");
+  if (!idToken || !(await ServerOrderService.isAdminToken(idToken))) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const provider = getActivePaymentProvider();
+    return NextResponse.json({
+      success: true,
+      data: {
+        provider: provider.id,
+        providerLabel: PAYMENT_PROVIDER_LABELS[provider.id],
+        ...provider.getEnvironment(),
+      },
+    });
+  } catch (error) {
+    console.error("Payment provider configuration error:", error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : "Payments are not configured" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,4 +1,5 @@
-import { PaymentData, ToyyibPayService } from "@/lib/toyyibpay";
+import { getActivePaymentProvider } from "@/lib/paymentGateway";
+import { PaymentProviderError, PaymentRequest } from "@/lib/paymentProvider";
 import { NextRequest, NextResponse } from "next/server";
 
 export async function POST(request: NextRequest) {
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Prepare payment data
-    const paymentData: PaymentData = {
+    const paymentData: PaymentRequest = {
       orderId,
       amount,
       customerName,
@@ -42,32 +43,25 @@ export async function POST(request: NextRequest) {
       items: Array.isArray(items) ? items : [],
     };
 
-    // Create bill with ToyyibPay
-    const result = await ToyyibPayService.createBill(paymentData);
+    // Create the bill with whichever provider is active
+    const provider = getActivePaymentProvider();
+    const bill = await provider.createBill(paymentData);
 
-    if (result.success && result.data) {
-      return NextResponse.json({
-        success: true,
-        message: "Payment initiated successfully",
-        data: {
-          billCode: result.data.BillCode,
-          paymentUrl: result.data.BillpaymentUrl,
-          orderId: orderId,
-        },
-      });
-    } else {
-      console.error("ToyyibPay error:", result.error);
-      return NextResponse.json(
-        {
-          success: false,
-          message: result.message || "Failed to create payment",
-          error: result.error,
-        },
-        { status: 500 },
-      );
-    }
+    return NextResponse.json({
+      success: true,
+      message: "Payment initiated successfully",
+      data: {
+        billCode: bill.billCode,
+        paymentUrl: bill.paymentUrl,
+        orderId: orderId,
+        provider: provider.id,
+      },
+    });
   } catch (error) {
     console.error("Payment creation error:", error);
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 500 });
+    }
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,70 @@
+import { MockPaymentOutcome, MockPaymentService } from "@/lib/mockPayment";
+import { getActivePaymentProvider } from "@/lib/paymentGateway";
+import { PaymentProviderError } from "@/lib/paymentProvider";
+import { NextRequest, NextResponse } from "next/server";
+
+const OUTCOMES: MockPaymentOutcome[] = ["success", "pending", "failed"];
+
+/**
+ * Whether the mock gateway is switched on. Its routes don't exist otherwise.
+ */
+function isMockGatewayActive(): boolean {
+  try {
+    return getActivePaymentProvider().id === "mock";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A mock bill, for the mock checkout page
+ */
+export async function GET(request: NextRequest) {
+  if (!isMockGatewayActive()) {
+    return NextResponse.json({ success: false, message: "Not found" }, { status: 404 });
+  }
+
+  const billCode = request.nextUrl.searchParams.get("billcode");
+  const bill = billCode ? MockPaymentService.getBill(billCode) : null;
+  if (!bill) {
+    return NextResponse.json({ success: false, message: "Bill not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, data: bill });
+}
+
+/**
+ * Pay, fail or leave pending a mock bill. The mock gateway then sends the callback, and the
+ * callback's HTTP status is returned so the page can show how it was handled.
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockGatewayActive()) {
+    return NextResponse.json({ success: false, message: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const { billCode, outcome, amount } = (await request.json()) as {
+      billCode?: string;
+      outcome?: MockPaymentOutcome;
+      amount?: number;
+    };
+
+    if (!billCode || !outcome || !OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { success: false, message: "billCode and a valid outcome are required" },
+        { status: 400 },
+      );
+    }
+    if (amount !== undefined && (typeof amount !== "number" || amount <= 0)) {
+      return NextResponse.json({ success: false, message: "Invalid amount" }, { status: 400 });
+    }
+
+    const result = await MockPaymentService.pay(billCode, outcome, amount);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Mock payment error:", error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : "Mock payment failed" },
+      { status: error instanceof PaymentProviderError ? 404 : 500 },
+    );
+  }
+}
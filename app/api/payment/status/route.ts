@@ -1,15 +1,18 @@
-import { ToyyibPayService } from "@/lib/toyyibpay";
+import { findPaymentProvider } from "@/lib/paymentGateway";
+import { GatewayPaymentState } from "@/lib/paymentReconciliation";
 import { NextRequest, NextResponse } from "next/server";
 
-interface TransactionResponse {
-  billpaymentStatus: string;
-  billCode: string;
-  billName: string;
-  billAmount: string;
-  billPaymentDate: string;
-  [key: string]: unknown;
-}
-
+// Bills with no payment attempt yet are still waiting to be paid
+const PAYMENT_STATUSES: Record<GatewayPaymentState, "success" | "pending" | "failed"> = {
+  paid: "success",
+  pending: "pending",
+  failed: "failed",
+  none: "pending",
+};
+
+/**
+ * Payment status of a bill. Pass `provider` for bills not issued by ToyyibPay.
+ */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
@@ -19,52 +22,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, message: "Bill code is required" }, { status: 400 });
     }
 
-    // Get transaction status from ToyyibPay
-    const response = await ToyyibPayService.getBillTransactions(billCode);
-
-    // Type guard to check if response is an array
-    if (!Array.isArray(response) || response.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: "No transactions found",
-        data: {
-          billCode,
-          status: "pending",
-          transactions: [],
-        },
-      });
+    const provider = findPaymentProvider(searchParams.get("provider") ?? "toyyibpay");
+    if (!provider) {
+      return NextResponse.json({ success: false, message: "Unknown payment provider" }, { status: 400 });
     }
 
-    // Function to parse DD-MM-YYYY HH:mm:ss format to Date object
-    const parseToyyibPayDate = (dateStr: string) => {
-      const [datePart, timePart] = dateStr.split(" ");
-      const [day, month, year] = datePart.split("-").map(Number);
-      const [hours, minutes, seconds] = timePart.split(":").map(Number);
-      return new Date(year, month - 1, day, hours, minutes, seconds);
-    };
-
-    // Sort transactions by billpaymentDate to get the latest one
-    const sortedTransactions = response.sort((a: TransactionResponse, b: TransactionResponse) => {
-      const dateA = parseToyyibPayDate(a.billPaymentDate);
-      const dateB = parseToyyibPayDate(b.billPaymentDate);
-      return dateB.getTime() - dateA.getTime(); // Latest first
-    });
-
-    const latestTransaction = sortedTransactions[0] as TransactionResponse;
+    // Get the bill's payment state from the gateway
+    const payment = await provider.getBillPayment(billCode);
 
     return NextResponse.json({
       success: true,
-      message: "Transaction status retrieved",
+      message: payment.state === "none" ? "No transactions found" : "Transaction status retrieved",
       data: {
         billCode,
-        status:
-          latestTransaction.billpaymentStatus === "1"
-            ? "success"
-            : latestTransaction.billpaymentStatus === "2"
-              ? "pending"
-              : "failed",
-        transaction: latestTransaction,
-        allTransactions: sortedTransactions,
+        status: PAYMENT_STATUSES[payment.state],
+        ...(payment.transactionId && { transactionId: payment.transactionId }),
+        ...(payment.amount != null && { amount: payment.amount }),
       },
     });
   } catch (error) {
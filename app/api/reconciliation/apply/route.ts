@@ -0,0 +1,69 @@
+import { getOrderPaymentProvider } from "@/lib/paymentGateway";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/paymentProvider";
+import { describeGatewayFix, getDiscrepancyType, GATEWAY_PAYMENT_STATE_LABELS } from "@/lib/paymentReconciliation";
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Apply the gateway state to one order from a reconciliation run. The bill is fetched from
+ * the gateway again rather than trusting the run, which may be hours old, and the change is
+ * recorded in the order history under the admin who applied it.
+ *
+ * Call with `Authorization: Bearer <Firebase ID token>` of an admin and a body of
+ * `{ runId, orderDocId }`.
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get("authorization")?.replace(/^Bearer /, "");
+  const admin = idToken ? await ServerOrderService.getAdminFromToken(idToken) : null;
+  if (!admin) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { runId, orderDocId } = (await request.json()) as { runId?: string; orderDocId?: string };
+    if (!runId || !orderDocId) {
+      return NextResponse.json({ success: false, message: "runId and orderDocId are required" }, { status: 400 });
+    }
+
+    const [order] = await ServerOrderService.getOrdersByIds([orderDocId]);
+    if (!order) {
+      return NextResponse.json({ success: false, message: "Order not found" }, { status: 404 });
+    }
+    if (!order.billCode) {
+      return NextResponse.json({ success: false, message: "Order has no payment bill" }, { status: 400 });
+    }
+
+    const provider = getOrderPaymentProvider(order);
+    const gateway = await provider.getBillPayment(order.billCode);
+    const type = getDiscrepancyType(order, gateway);
+    const resolvedBy = admin.actorName ?? "Admin";
+
+    if (!type) {
+      await ServerOrderService.resolveReconciliationDiscrepancy(runId, orderDocId, resolvedBy);
+      return NextResponse.json({
+        success: true,
+        message: "Order already matches the gateway",
+        data: { result: "ignored" },
+      });
+    }
+
+    const result = await ServerOrderService.applyGatewayPaymentState(order.id, gateway, {
+      source: "reconciliation",
+      ...admin,
+      note: `${describeGatewayFix({ type, gateway })}: bill ${order.billCode} is ${GATEWAY_PAYMENT_STATE_LABELS[gateway.state].toLowerCase()} at ${PAYMENT_PROVIDER_LABELS[provider.id]}`,
+    });
+    await ServerOrderService.resolveReconciliationDiscrepancy(runId, orderDocId, resolvedBy);
+
+    return NextResponse.json({
+      success: true,
+      message: result === "held" ? "Payment recorded; order held for amount mismatch" : "Gateway state applied",
+      data: { result },
+    });
+  } catch (error) {
+    console.error("Apply gateway state error:", error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : "Failed to apply gateway state" },
+      { status: 500 },
+    );
+  }
+}
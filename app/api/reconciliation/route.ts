@@ -0,0 +1,37 @@
+import { RECONCILIATION_WINDOW_DAYS } from "@/lib/paymentReconciliation";
+import { ServerOrderService } from "@/lib/serverOrderService";
+import { NextRequest, NextResponse } from "next/server";
+
+// Same limit as the scheduled job
+const MAX_ORDERS_PER_RUN = 500;
+
+/**
+ * Run payment reconciliation now instead of waiting for the scheduled job. Returns the ID of the
+ * stored run.
+ *
+ * Call with `Authorization: Bearer <Firebase ID token>` of an admin.
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get("authorization")?.replace(/^Bearer /, "");
+  const admin = idToken ? await ServerOrderService.getAdminFromToken(idToken) : null;
+  if (!admin) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const since = new Date(Date.now() - RECONCILIATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const run = await ServerOrderService.runPaymentReconciliation(
+      since,
+      MAX_ORDERS_PER_RUN,
+      admin.actorName ?? "Admin",
+    );
+
+    return NextResponse.json({ success: true, message: "Reconciliation completed", data: { runId: run.id } });
+  } catch (error) {
+    console.error("Reconciliation error:", error);
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : "Failed to run reconciliation" },
+      { status: 500 },
+    );
+  }
+}
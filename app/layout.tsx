@@ -1,5 +1,6 @@
 import AOSProvider from "@/components/AOSProvider";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OrderNotificationsProvider } from "@/contexts/OrderNotificationsContext";
 import "@/lib/adminManagement"; // Make AdminManagement available globally
 import "@/styles/globals.css";
 import type { Metadata } from "next";
@@ -24,7 +25,9 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     <html lang="en">
       <body className={`min-h-screen ${poppins.variable}`}>
         <AuthProvider>
-          <AOSProvider>{children}</AOSProvider>
+          <OrderNotificationsProvider>
+            <AOSProvider>{children}</AOSProvider>
+          </OrderNotificationsProvider>
         </AuthProvider>
         <Toaster richColors position="top-right" />
       </body>
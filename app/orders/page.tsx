@@ -1,19 +1,71 @@
 "use client";
 
 import { AdminLayout } from "@/components/AdminLayout";
+import { ManualOrderDialog } from "@/components/ManualOrderDialog";
+import { OrderComments } from "@/components/OrderComments";
+import { OrderExportDialog } from "@/components/OrderExportDialog";
+import { OrderFiltersPanel } from "@/components/OrderFiltersPanel";
+import { OrderItemsEditor } from "@/components/OrderItemsEditor";
+import { OrderRefunds } from "@/components/OrderRefunds";
+import { OrderReturns } from "@/components/OrderReturns";
+import { OrderRiskBadge } from "@/components/OrderRiskBadge";
+import { OrderRiskPanel } from "@/components/OrderRiskPanel";
+import { OrderShipments } from "@/components/OrderShipments";
+import { OrderTimeline } from "@/components/OrderTimeline";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { AdminService } from "@/lib/adminService";
-import { Order } from "@/lib/orderService";
-import { ChevronLeft, ChevronRight, Download, Eye, Filter, Search } from "lucide-react";
-import { useEffect, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOrderNotifications } from "@/contexts/OrderNotificationsContext";
+import { AdminService, MAX_FILTER_SCAN, OrderCursor, OrderSummary } from "@/lib/adminService";
+import { OrderCommentMatch } from "@/lib/orderComments";
+import { FULFILLMENT_STATUS_LABELS, FulfillmentStatus } from "@/lib/orderConstants";
+import { OrderDocumentType, printOrderDocuments } from "@/lib/orderDocuments";
+import { ORDER_LOOKUP_FIELD_LABELS, OrderLookupMatch, PRODUCT_LOOKUP_SCAN_LIMIT } from "@/lib/orderLookup";
+import { filtersFromSearchParams, filtersToSearchParams, OrderQueryFilters } from "@/lib/orderFilters";
+import { REFUND_STATUS_LABELS } from "@/lib/orderRefunds";
+import {
+  BulkOrderResult,
+  getFulfillmentStatus,
+  getNextFulfillmentStatuses,
+  HOLD_STATUS_LABELS,
+  isAwaitingShipment,
+  Order,
+  ORDER_CHANNEL_LABELS,
+  OrderService,
+  PAYMENT_METHOD_LABELS,
+} from "@/lib/orderService";
+import { STOCK_STATUS_LABELS } from "@/lib/stockReservations";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Eye,
+  FileText,
+  Filter,
+  Link2,
+  MessageSquarePlus,
+  Plus,
+  Printer,
+  Search,
+  SlidersHorizontal,
+  X,
+} from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
-import * as XLSX from "xlsx";
 
 // Helper function
 const formatCurrency = (amount: number) => {
@@ -37,111 +89,441 @@ const getStatusVariant = (status: string) => {
   }
 };
 
-export default function OrdersPage() {
+const getFulfillmentVariant = (status: FulfillmentStatus) => {
+  switch (status) {
+    case "delivered":
+      return "default" as const;
+    case "processing":
+    case "packed":
+    case "shipped":
+      return "secondary" as const;
+    case "cancelled":
+      return "destructive" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+type SearchScope = "page" | "lookup" | "comments" | "mentions";
+
+function OrdersPageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  // "page" narrows the loaded page; the other scopes search across all orders
+  const [searchScope, setSearchScope] = useState<SearchScope>("page");
+  const [commentMatches, setCommentMatches] = useState<OrderCommentMatch[]>([]);
+  const [lookupMatches, setLookupMatches] = useState<OrderLookupMatch[]>([]);
+  const [searchResults, setSearchResults] = useState<Order[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [updatingFulfillment, setUpdatingFulfillment] = useState(false);
+
+  // Selected orders are kept by document ID so the selection survives paging
+  const [selectedOrders, setSelectedOrders] = useState<Record<string, Order>>({});
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [isNoteOpen, setIsNoteOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportOrderIds, setExportOrderIds] = useState<string[] | undefined>();
+  const [bulkNote, setBulkNote] = useState("");
+  const [printing, setPrinting] = useState(false);
+  const [isNewOrderOpen, setIsNewOrderOpen] = useState(false);
+  const [creatingPaymentLink, setCreatingPaymentLink] = useState(false);
 
-  // Pagination state
+  const [pageLoading, setPageLoading] = useState(false);
+  const [summary, setSummary] = useState<OrderSummary | null>(null);
+
+  // Pagination state. pageCursors[n] is the cursor to start after when loading page n + 1.
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [scanLimited, setScanLimited] = useState(false);
+  const [pageCursors, setPageCursors] = useState<(OrderCursor | null)[]>([null]);
+
+  // Filters live in the URL so a filtered view can be bookmarked and shared
+  const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const statusFilter = filters.fulfillmentStatus ?? "all";
+  const advancedFilterCount = Array.from(filtersToSearchParams(filters).keys()).filter(
+    (key) => key !== "status",
+  ).length;
+
+  // Open an order straight from a link, e.g. from the customer view
+  const linkedOrderId = searchParams.get("order");
+  useEffect(() => {
+    if (!linkedOrderId) return;
+
+    OrderService.getOrderById(linkedOrderId)
+      .then((order) => {
+        if (!order) {
+          toast.error("Order not found");
+          return;
+        }
+        setSelectedOrder(order);
+        setIsDetailsOpen(true);
+      })
+      .catch((error) => {
+        console.error("Error loading linked order:", error);
+        toast.error("Failed to load order");
+      });
+  }, [linkedOrderId]);
+
+  const updateFilters = (nextFilters: OrderQueryFilters) => {
+    const query = filtersToSearchParams(nextFilters).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const setStatusFilter = (value: string) => {
+    updateFilters({
+      ...filters,
+      fulfillmentStatus: value === "all" ? undefined : (value as OrderQueryFilters["fulfillmentStatus"]),
+    });
+  };
+
+  // The page being shown; filters are part of it so a filter change always starts again at page 1
+  const [pageRequest, setPageRequest] = useState({ filters, page: 1, after: null as OrderCursor | null });
+
+  useEffect(() => {
+    setPageRequest((prev) => (prev.filters === filters ? prev : { filters, page: 1, after: null }));
+  }, [filters]);
+
+  const loadPage = (page: number, after: OrderCursor | null) => {
+    setPageRequest({ filters, page, after });
+  };
+
+  // Listen to the requested page so new and updated orders show up without a refresh
+  useEffect(() => {
+    const { filters, page, after } = pageRequest;
+    setPageLoading(true);
+
+    return AdminService.subscribeToOrdersPage(
+      { filters, pageSize: itemsPerPage, after },
+      (result) => {
+        setOrders(result.orders);
+        setTotalCount(result.totalCount);
+        setHasMore(result.hasMore);
+        setScanLimited(!!result.scanLimited);
+        setPageCursors((prev) => {
+          const cursors = page === 1 ? [null] : prev.slice(0, page);
+          cursors[page] = result.lastCursor;
+          return cursors;
+        });
+        setCurrentPage(page);
+        setError(null);
+        setLoading(false);
+        setPageLoading(false);
+      },
+      (error) => {
+        console.error("Error fetching orders:", error);
+        setError("Failed to fetch orders");
+        setLoading(false);
+        setPageLoading(false);
+      },
+    );
+  }, [pageRequest, itemsPerPage]);
 
+  // Keep the open order in step with live updates to the page
   useEffect(() => {
-    fetchOrders();
-  }, []);
+    setSelectedOrder((prev) => (prev && orders.find((order) => order.id === prev.id)) ?? prev);
+  }, [orders]);
 
-  const fetchOrders = async () => {
+  const fetchSummary = async () => {
     try {
-      setLoading(true);
-      const ordersData = await AdminService.getRecentOrders(50); // Get more orders for the orders page
-      setOrders(ordersData);
-      setError(null);
+      setSummary(await AdminService.getOrderSummary());
     } catch (error) {
-      console.error("Error fetching orders:", error);
-      setError("Failed to fetch orders");
-    } finally {
-      setLoading(false);
+      console.error("Error fetching order summary:", error);
     }
   };
 
+  const fetchOrders = () => {
+    fetchSummary();
+    loadPage(1, null);
+  };
+
+  // Summary counts are aggregates, so reload them whenever an order is created or updated
+  const { lastActivityAt } = useOrderNotifications();
+  useEffect(() => {
+    fetchSummary();
+  }, [lastActivityAt]);
+
+  // Search only narrows the page that is already loaded
   const filteredOrders = orders.filter((order) => {
     const matchesSearch =
       order.orderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.customerName.toLowerCase().includes(searchTerm.toLowerCase());
 
-    const matchesStatus = statusFilter === "all" || order.status.toLowerCase() === statusFilter.toLowerCase();
+    const matchesStatus = statusFilter !== "awaiting_shipment" || isAwaitingShipment(order);
 
     return matchesSearch && matchesStatus;
   });
 
-  // Pagination logic
-  const totalPages = Math.ceil(filteredOrders.length / itemsPerPage);
+  // Look up orders or search comments across all orders, debounced while typing
+  useEffect(() => {
+    if (searchScope === "page") return;
+
+    const term = searchTerm.trim();
+    if (searchScope !== "mentions" && !term) {
+      setCommentMatches([]);
+      setLookupMatches([]);
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+
+        if (searchScope === "lookup") {
+          const matches = await OrderService.lookupOrders(term);
+          if (cancelled) return;
+
+          setLookupMatches(matches);
+          setSearchResults(matches.map((match) => match.order));
+          // A single exact reference match is almost always the order the ticket is about
+          if (matches.length === 1 && matches[0].matchedOn !== "product") {
+            setSelectedOrder(matches[0].order);
+            setIsDetailsOpen(true);
+          }
+          return;
+        }
+
+        const matches =
+          searchScope === "mentions"
+            ? user
+              ? await OrderService.getCommentsMentioning(user.uid)
+              : []
+            : await OrderService.searchOrderComments(term);
+        const orderIds = Array.from(new Set(matches.map((match) => match.orderId)));
+        const matchedOrders = await Promise.all(orderIds.map((id) => OrderService.getOrderById(id)));
+
+        if (!cancelled) {
+          setCommentMatches(matches);
+          setSearchResults(matchedOrders.filter((order): order is Order => order !== null));
+        }
+      } catch (error) {
+        console.error("Error searching orders:", error);
+        if (!cancelled) {
+          toast.error(searchScope === "lookup" ? "Failed to look up orders" : "Failed to search comments");
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchScope, searchTerm, user]);
+
+  const displayedOrders = searchScope === "page" ? filteredOrders : searchResults;
+
+  // Shown under the order ID: what a lookup matched on, or the newest matching comment
+  const resultSnippets = useMemo(() => {
+    const snippets: Record<string, string> = {};
+    if (searchScope === "lookup") {
+      lookupMatches.forEach((match) => {
+        snippets[match.order.id!] =
+          match.matchedOn === "product"
+            ? `Matched on product (latest ${PRODUCT_LOOKUP_SCAN_LIMIT} orders searched)`
+            : `Matched on ${ORDER_LOOKUP_FIELD_LABELS[match.matchedOn].toLowerCase()}`;
+      });
+    } else {
+      commentMatches.forEach((match) => {
+        snippets[match.orderId] ??= match.comment.body;
+      });
+    }
+    return snippets;
+  }, [searchScope, lookupMatches, commentMatches]);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedOrders = filteredOrders.slice(startIndex, endIndex);
+  const endIndex = startIndex + orders.length;
 
-  // Reset to first page when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, statusFilter]);
+  // Window of page buttons around the current page; pages beyond the next one have no cursor yet
+  const firstVisiblePage = Math.max(1, Math.min(currentPage - 2, totalPages - 4));
+  const visiblePages = Array.from({ length: Math.min(5, totalPages) }, (_, i) => firstVisiblePage + i);
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    // Cursors only exist for pages we've visited plus the next one
+    if (page < 1 || page >= pageCursors.length + 1 || pageLoading) return;
+    loadPage(page, pageCursors[page - 1] ?? null);
   };
 
-  const handleExportOrders = () => {
-    if (!orders || orders.length === 0) {
-      toast.error("No orders to export");
-      return;
+  // Reload a single order after it changes so the details dialog and comment results stay in sync
+  const refreshOrder = async (orderId: string) => {
+    const updatedOrder = await OrderService.getOrderById(orderId);
+    if (!updatedOrder) return;
+
+    setOrders((prev) => prev.map((o) => (o.id === orderId ? updatedOrder : o)));
+    setSearchResults((prev) => prev.map((o) => (o.id === orderId ? updatedOrder : o)));
+    setSelectedOrder((prev) => (prev?.id === orderId ? updatedOrder : prev));
+    fetchSummary();
+  };
+
+  const handleCreatePaymentLink = async (order: Order) => {
+    if (!order.id) return;
+
+    try {
+      setCreatingPaymentLink(true);
+      const paymentUrl = await OrderService.createPaymentLink(order);
+      await refreshOrder(order.id);
+      await navigator.clipboard?.writeText(paymentUrl).catch(() => undefined);
+      toast.success("Payment link created and copied");
+    } catch (error) {
+      console.error("Error creating payment link:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create payment link");
+    } finally {
+      setCreatingPaymentLink(false);
+    }
+  };
+
+  const handleFulfillmentChange = async (order: Order, nextStatus: FulfillmentStatus) => {
+    if (!order.id) return;
+
+    try {
+      setUpdatingFulfillment(true);
+      await OrderService.updateFulfillmentStatus(order.id, nextStatus);
+      await refreshOrder(order.id);
+      toast.success(`Order marked as ${FULFILLMENT_STATUS_LABELS[nextStatus].toLowerCase()}`);
+    } catch (error) {
+      console.error("Error updating fulfillment status:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update fulfillment status");
+    } finally {
+      setUpdatingFulfillment(false);
     }
+  };
+
+  const selectedList = Object.values(selectedOrders);
+  const selectableOrders = displayedOrders.filter((order) => order.id);
+  const allVisibleSelected =
+    selectableOrders.length > 0 && selectableOrders.every((order) => selectedOrders[order.id!]);
+
+  const toggleOrderSelection = (order: Order) => {
+    if (!order.id) return;
 
-    // Prepare data for export
-    const exportData = orders.map((order) => {
-      // Calculate items summary
-      const itemsSummary = order.items
-        .map((item) => `${item.name} (${item.size}) x${item.quantity} - ${formatCurrency(item.price)}`)
-        .join("\n");
-
-      return {
-        "Order ID": order.orderId,
-        Date: order.createdAt ? new Date(order.createdAt.seconds * 1000).toLocaleDateString() : "N/A",
-        Status: order.status.charAt(0).toUpperCase() + order.status.slice(1),
-        "Customer Name": order.customerName,
-        "Customer Email": order.customerEmail,
-        "Customer Phone": order.customerPhone || "N/A",
-        Items: itemsSummary,
-        "Total Amount": formatCurrency(order.totalAmount),
-      };
+    setSelectedOrders((prev) => {
+      const next = { ...prev };
+      if (next[order.id!]) {
+        delete next[order.id!];
+      } else {
+        next[order.id!] = order;
+      }
+      return next;
     });
+  };
 
-    // Create workbook and worksheet
-    const wb = XLSX.utils.book_new();
-    const ws = XLSX.utils.json_to_sheet(exportData);
-
-    // Set column widths
-    const colWidths = [
-      { wch: 15 }, // Order ID
-      { wch: 12 }, // Date
-      { wch: 10 }, // Status
-      { wch: 20 }, // Customer Name
-      { wch: 25 }, // Customer Email
-      { wch: 15 }, // Customer Phone
-      { wch: 50 }, // Items
-      { wch: 15 }, // Total Amount
-    ];
-    ws["!cols"] = colWidths;
-
-    // Add worksheet to workbook
-    XLSX.utils.book_append_sheet(wb, ws, "Orders");
-
-    // Generate and download file
-    const fileName = `empire-sports-orders.xlsx`;
-    XLSX.writeFile(wb, fileName);
-    toast.success("Orders exported successfully");
+  const toggleAllVisible = () => {
+    setSelectedOrders((prev) => {
+      const next = { ...prev };
+      selectableOrders.forEach((order) => {
+        if (allVisibleSelected) {
+          delete next[order.id!];
+        } else {
+          next[order.id!] = order;
+        }
+      });
+      return next;
+    });
+  };
+
+  // Run a bulk write with a progress toast, then report which orders failed and why
+  const runBulkAction = async (
+    label: string,
+    action: (orderIds: string[], onProgress: (processed: number, total: number) => void) => Promise<BulkOrderResult>,
+  ): Promise<boolean> => {
+    const orderIds = Object.keys(selectedOrders);
+    if (orderIds.length === 0 || bulkRunning) return false;
+
+    const toastId = toast.loading(`${label}: 0 of ${orderIds.length} orders...`);
+
+    try {
+      setBulkRunning(true);
+      const result = await action(orderIds, (processed, total) => {
+        toast.loading(`${label}: ${processed} of ${total} orders...`, { id: toastId });
+      });
+
+      if (result.failed.length === 0) {
+        toast.success(`${label}: ${result.succeeded.length} orders updated`, { id: toastId });
+      } else {
+        const orderNumber = (orderId: string) => selectedOrders[orderId]?.orderId ?? orderId;
+        toast.error(`${label}: ${result.succeeded.length} updated, ${result.failed.length} failed`, {
+          id: toastId,
+          description: result.failed.map((failure) => `${orderNumber(failure.orderId)}: ${failure.error}`).join("; "),
+          duration: 10000,
+        });
+      }
+
+      // Keep only the failures selected so they can be retried
+      setSelectedOrders((prev) =>
+        Object.fromEntries(Object.entries(prev).filter(([id]) => result.failed.some((f) => f.orderId === id))),
+      );
+      fetchSummary();
+      return true;
+    } catch (error) {
+      console.error("Error running bulk action:", error);
+      toast.error(`${label} failed`, { id: toastId });
+      return false;
+    } finally {
+      setBulkRunning(false);
+    }
+  };
+
+  const handleBulkStatusChange = (nextStatus: string) => {
+    const status = nextStatus as FulfillmentStatus;
+    runBulkAction(`Mark as ${FULFILLMENT_STATUS_LABELS[status].toLowerCase()}`, (orderIds, onProgress) =>
+      OrderService.bulkUpdateFulfillmentStatus(orderIds, status, onProgress),
+    );
+  };
+
+  const handleBulkNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const added = await runBulkAction("Add note", (orderIds, onProgress) =>
+      OrderService.bulkAddNote(orderIds, bulkNote, onProgress),
+    );
+    if (added) {
+      setBulkNote("");
+      setIsNoteOpen(false);
+    }
+  };
+
+  const handlePrintDocuments = async (type: OrderDocumentType, ordersToPrint: Order[]) => {
+    const label = type === "invoice" ? "invoices" : "packing slips";
+
+    try {
+      setPrinting(true);
+      const { skipped } = await printOrderDocuments(type, ordersToPrint);
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} unpaid order${skipped.length === 1 ? "" : "s"}`, {
+          description: skipped.map((order) => order.orderId).join(", "),
+        });
+      }
+
+      // Newly assigned invoice numbers are saved on the orders; the table picks them up live
+      if (ordersToPrint.some((order) => !order.invoiceNumber)) {
+        if (selectedOrder?.id) refreshOrder(selectedOrder.id);
+      }
+    } catch (error) {
+      console.error(`Error printing ${label}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to print ${label}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const openExport = (orderIds?: string[]) => {
+    setExportOrderIds(orderIds);
+    setIsExportOpen(true);
   };
 
   if (loading) {
@@ -178,37 +560,43 @@ export default function OrdersPage() {
     <AdminLayout title="Orders">
       <div className="space-y-6">
         {/* Orders Statistics */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Orders</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-primary text-2xl font-bold">{orders.length}</div>
+              <div className="text-primary text-2xl font-bold">{summary?.totalOrders ?? "—"}</div>
               <p className="text-muted-foreground text-xs">All time</p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Pending Orders</CardTitle>
+              <CardTitle className="text-sm font-medium">Pending Payment</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-primary text-2xl font-bold">
-                {orders.filter((o) => o.status.toLowerCase() === "pending").length}
-              </div>
-              <p className="text-muted-foreground text-xs">Awaiting processing</p>
+              <div className="text-primary text-2xl font-bold">{summary?.pendingPayment ?? "—"}</div>
+              <p className="text-muted-foreground text-xs">Awaiting payment</p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Completed Orders</CardTitle>
+              <CardTitle className="text-sm font-medium">To Fulfill</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-primary text-2xl font-bold">
-                {orders.filter((o) => ["success", "delivered"].includes(o.status.toLowerCase())).length}
-              </div>
+              <div className="text-primary text-2xl font-bold">{summary?.toFulfill ?? "—"}</div>
+              <p className="text-muted-foreground text-xs">Paid and awaiting shipment</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Delivered Orders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-primary text-2xl font-bold">{summary?.delivered ?? "—"}</div>
               <p className="text-muted-foreground text-xs">Successfully completed</p>
             </CardContent>
           </Card>
@@ -219,9 +607,9 @@ export default function OrdersPage() {
             </CardHeader>
             <CardContent>
               <div className="text-primary text-2xl font-bold">
-                {formatCurrency(orders.reduce((sum, order) => sum + order.totalAmount, 0))}
+                {summary ? formatCurrency(summary.netRevenue) : "—"}
               </div>
-              <p className="text-muted-foreground text-xs">From all orders</p>
+              <p className="text-muted-foreground text-xs">Paid orders, net of refunds</p>
             </CardContent>
           </Card>
         </div>
@@ -234,10 +622,16 @@ export default function OrdersPage() {
                 <CardTitle className="text-primary">Order Management</CardTitle>
                 <CardDescription>View and manage customer orders</CardDescription>
               </div>
-              <Button onClick={handleExportOrders} variant="outline">
-                <Download className="mr-2 h-4 w-4" />
-                Export Orders
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={() => setIsNewOrderOpen(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Order
+                </Button>
+                <Button onClick={() => openExport()} variant="outline">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export Orders
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -246,12 +640,32 @@ export default function OrdersPage() {
               <div className="relative flex-1">
                 <Search className="text-muted-foreground absolute top-3 left-3 h-4 w-4" />
                 <Input
-                  placeholder="Search orders by ID or customer name..."
+                  placeholder={
+                    searchScope === "page"
+                      ? "Search this page by order ID or customer name..."
+                      : searchScope === "lookup"
+                        ? "Order ID, transaction ID, bill code, email, phone or product..."
+                        : searchScope === "comments"
+                          ? "Search internal comments on all orders..."
+                          : "Showing comments that mention you"
+                  }
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
+                  disabled={searchScope === "mentions"}
                   className="pl-10"
                 />
               </div>
+              <Select value={searchScope} onValueChange={(value) => setSearchScope(value as SearchScope)}>
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="page">This page</SelectItem>
+                  <SelectItem value="lookup">All orders</SelectItem>
+                  <SelectItem value="comments">Comments</SelectItem>
+                  <SelectItem value="mentions">Mentions me</SelectItem>
+                </SelectContent>
+              </Select>
               <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger className="w-full sm:w-48">
                   <Filter className="mr-2 h-4 w-4" />
@@ -259,40 +673,192 @@ export default function OrdersPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="success">Success</SelectItem>
-                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="awaiting_shipment">Awaiting Shipment</SelectItem>
+                  {Object.entries(FULFILLMENT_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <Button
+                variant={showFilters || advancedFilterCount > 0 ? "secondary" : "outline"}
+                onClick={() => setShowFilters(!showFilters)}
+              >
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                Filters{advancedFilterCount > 0 && ` (${advancedFilterCount})`}
+              </Button>
             </div>
 
+            {showFilters && <OrderFiltersPanel filters={filters} onApply={updateFilters} />}
+
+            {/* Bulk Actions */}
+            {selectedList.length > 0 && (
+              <div className="bg-muted/50 mb-4 flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center">
+                <span className="text-sm font-medium">{selectedList.length} selected</span>
+                <div className="flex flex-1 flex-wrap gap-2">
+                  <Select value="" onValueChange={handleBulkStatusChange} disabled={bulkRunning}>
+                    <SelectTrigger className="h-8 w-44">
+                      <SelectValue placeholder="Change status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FULFILLMENT_STATUS_LABELS)
+                        .filter(([value]) => value !== "unfulfilled")
+                        .map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            Mark as {label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={bulkRunning}
+                    onClick={() => openExport(Object.keys(selectedOrders))}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export Selected
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={bulkRunning || printing}
+                    onClick={() => handlePrintDocuments("invoice", selectedList)}
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Invoices
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={bulkRunning || printing}
+                    onClick={() => handlePrintDocuments("packing_slip", selectedList)}
+                  >
+                    <Printer className="mr-2 h-4 w-4" />
+                    Packing Slips
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={bulkRunning} onClick={() => setIsNoteOpen(true)}>
+                    <MessageSquarePlus className="mr-2 h-4 w-4" />
+                    Add Note
+                  </Button>
+                </div>
+                <Button size="sm" variant="ghost" disabled={bulkRunning} onClick={() => setSelectedOrders({})}>
+                  <X className="mr-2 h-4 w-4" />
+                  Clear
+                </Button>
+              </div>
+            )}
+
+            {searchScope === "page" && scanLimited && !pageLoading && (
+              <p className="text-muted-foreground mb-4 rounded-md border px-3 py-2 text-sm">
+                Only the newest {MAX_FILTER_SCAN.toLocaleString()} orders were searched for these filters. Narrow the
+                date range or status to find older orders.
+              </p>
+            )}
+
             {/* Orders Table */}
-            {paginatedOrders.length > 0 ? (
+            {pageLoading || searching ? (
+              <div className="flex items-center justify-center space-x-2 py-8">
+                <div className="border-primary h-6 w-6 animate-spin rounded-full border-b-2"></div>
+                <span className="text-muted-foreground text-sm">Loading orders...</span>
+              </div>
+            ) : displayedOrders.length > 0 ? (
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <input
+                          type="checkbox"
+                          aria-label="Select all orders on this page"
+                          className="accent-primary h-4 w-4"
+                          checked={allVisibleSelected}
+                          onChange={toggleAllVisible}
+                        />
+                      </TableHead>
                       <TableHead>Order ID</TableHead>
                       <TableHead>Customer</TableHead>
                       <TableHead>Items</TableHead>
-                      <TableHead>Status</TableHead>
+                      <TableHead>Payment</TableHead>
+                      <TableHead>Fulfillment</TableHead>
+                      <TableHead>Risk</TableHead>
+                      <TableHead>Tracking</TableHead>
                       <TableHead>Amount</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {paginatedOrders.map((order) => (
-                      <TableRow key={order.id}>
-                        <TableCell className="font-medium">{order.orderId}</TableCell>
+                    {displayedOrders.map((order) => (
+                      <TableRow
+                        key={order.id}
+                        data-state={order.id && selectedOrders[order.id] ? "selected" : undefined}
+                      >
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select order ${order.orderId}`}
+                            className="accent-primary h-4 w-4"
+                            checked={!!order.id && !!selectedOrders[order.id]}
+                            onChange={() => toggleOrderSelection(order)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {order.orderId}
+                          {searchScope !== "page" && order.id && resultSnippets[order.id] && (
+                            <p className="text-muted-foreground max-w-56 truncate text-xs font-normal">
+                              {resultSnippets[order.id]}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell>{order.customerName}</TableCell>
                         <TableCell>
                           {order.items.length} item{order.items.length > 1 ? "s" : ""}
                         </TableCell>
                         <TableCell>
-                          <Badge variant={getStatusVariant(order.status)}>
-                            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                          </Badge>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={getStatusVariant(order.status)}>
+                              {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                            </Badge>
+                            {order.refundStatus && (
+                              <Badge variant="outline">{REFUND_STATUS_LABELS[order.refundStatus]}</Badge>
+                            )}
+                            {order.amountMismatch && (
+                              <Badge
+                                variant="destructive"
+                                title={`Paid ${formatCurrency(order.amountMismatch.paid)}, expected ${formatCurrency(order.amountMismatch.expected)}`}
+                              >
+                                Amount Mismatch
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={getFulfillmentVariant(getFulfillmentStatus(order))}>
+                              {FULFILLMENT_STATUS_LABELS[getFulfillmentStatus(order)]}
+                            </Badge>
+                            {order.holdStatus === "on_hold" && (
+                              <Badge variant="destructive">{HOLD_STATUS_LABELS.on_hold}</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <OrderRiskBadge risk={order.risk} />
+                        </TableCell>
+                        <TableCell>
+                          {order.shipments && order.shipments.length > 0 ? (
+                            <div className="text-xs">
+                              <div className="font-mono">{order.shipments[0].trackingNumber}</div>
+                              <div className="text-muted-foreground">
+                                {order.shipments[0].courier}
+                                {order.shipments.length > 1 && ` +${order.shipments.length - 1} more`}
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-xs">—</span>
+                          )}
                         </TableCell>
                         <TableCell className="text-primary font-semibold">
                           {formatCurrency(order.totalAmount)}
@@ -320,7 +886,19 @@ export default function OrdersPage() {
             ) : (
               <div className="py-8 text-center">
                 <p className="text-muted-foreground">
-                  {searchTerm || statusFilter !== "all" ? "No orders match your filters" : "No orders found"}
+                  {searchScope === "lookup"
+                    ? searchTerm.trim()
+                      ? "No orders match that reference"
+                      : "Type a reference to look up an order"
+                    : searchScope === "mentions"
+                      ? "No comments mention you"
+                      : searchScope === "comments"
+                        ? searchTerm.trim()
+                          ? "No comments match your search"
+                          : "Type to search internal comments"
+                        : searchTerm || statusFilter !== "all" || advancedFilterCount > 0
+                          ? "No orders match your filters"
+                          : "No orders found"}
                 </p>
               </div>
             )}
@@ -350,14 +928,134 @@ export default function OrdersPage() {
                           </span>
                         </div>
                         <div className="grid grid-cols-2">
-                          <span className="text-muted-foreground">Status:</span>
+                          <span className="text-muted-foreground">Payment:</span>
                           <Badge variant={getStatusVariant(selectedOrder.status)}>
                             {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
                           </Badge>
                         </div>
+                        {selectedOrder.amountMismatch && (
+                          <div className="grid grid-cols-2">
+                            <span className="text-muted-foreground">Amount Paid:</span>
+                            <span className="font-medium text-red-600">
+                              {formatCurrency(selectedOrder.amountMismatch.paid)} (expected{" "}
+                              {formatCurrency(selectedOrder.amountMismatch.expected)})
+                            </span>
+                          </div>
+                        )}
+                        <div className="grid grid-cols-2">
+                          <span className="text-muted-foreground">Fulfillment:</span>
+                          <Badge variant={getFulfillmentVariant(getFulfillmentStatus(selectedOrder))}>
+                            {FULFILLMENT_STATUS_LABELS[getFulfillmentStatus(selectedOrder)]}
+                          </Badge>
+                        </div>
+                        <div className="grid grid-cols-2">
+                          <span className="text-muted-foreground">Channel:</span>
+                          <span>
+                            {ORDER_CHANNEL_LABELS[selectedOrder.channel ?? "online"]}
+                            {selectedOrder.paymentMethod && ` · ${PAYMENT_METHOD_LABELS[selectedOrder.paymentMethod]}`}
+                          </span>
+                        </div>
+                        {selectedOrder.stockStatus && (
+                          <div className="grid grid-cols-2">
+                            <span className="text-muted-foreground">Stock:</span>
+                            <span>{STOCK_STATUS_LABELS[selectedOrder.stockStatus]}</span>
+                          </div>
+                        )}
+                        {selectedOrder.paymentStatus !== "success" && (
+                          <div className="grid grid-cols-2">
+                            <span className="text-muted-foreground">Payment Link:</span>
+                            {selectedOrder.paymentUrl ? (
+                              <a
+                                href={selectedOrder.paymentUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary truncate underline"
+                              >
+                                {selectedOrder.paymentUrl}
+                              </a>
+                            ) : (
+                              <div>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={creatingPaymentLink}
+                                  onClick={() => handleCreatePaymentLink(selectedOrder)}
+                                >
+                                  <Link2 className="mr-2 h-4 w-4" />
+                                  {creatingPaymentLink ? "Creating..." : "Create Payment Link"}
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        {selectedOrder.invoiceNumber && (
+                          <div className="grid grid-cols-2">
+                            <span className="text-muted-foreground">Invoice:</span>
+                            <span className="font-mono">{selectedOrder.invoiceNumber}</span>
+                          </div>
+                        )}
+                        {selectedOrder.refundStatus && (
+                          <div className="grid grid-cols-2">
+                            <span className="text-muted-foreground">Refund:</span>
+                            <span>
+                              {REFUND_STATUS_LABELS[selectedOrder.refundStatus]} (
+                              {formatCurrency(selectedOrder.refundedAmount || 0)})
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Documents */}
+                    {selectedOrder.paymentStatus === "success" && (
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={printing}
+                          onClick={() => handlePrintDocuments("invoice", [selectedOrder])}
+                        >
+                          <FileText className="mr-2 h-4 w-4" />
+                          Print Invoice
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={printing}
+                          onClick={() => handlePrintDocuments("packing_slip", [selectedOrder])}
+                        >
+                          <Printer className="mr-2 h-4 w-4" />
+                          Print Packing Slip
+                        </Button>
                       </div>
+                    )}
+
+                    {/* Risk Review */}
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Risk Review</h4>
+                      <OrderRiskPanel order={selectedOrder} onUpdated={() => refreshOrder(selectedOrder.id!)} />
                     </div>
 
+                    {/* Fulfillment Actions */}
+                    {getNextFulfillmentStatuses(selectedOrder).length > 0 && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Update Fulfillment</h4>
+                        <div className="flex flex-wrap gap-2">
+                          {getNextFulfillmentStatuses(selectedOrder).map((status) => (
+                            <Button
+                              key={status}
+                              size="sm"
+                              variant={status === "cancelled" ? "destructive" : "outline"}
+                              disabled={updatingFulfillment}
+                              onClick={() => handleFulfillmentChange(selectedOrder, status)}
+                            >
+                              Mark as {FULFILLMENT_STATUS_LABELS[status]}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Customer Information */}
                     <div className="space-y-1">
                       <h4 className="text-sm font-medium">Customer Information</h4>
@@ -408,19 +1106,90 @@ export default function OrdersPage() {
                           </TableRow>
                         </TableBody>
                       </Table>
+                      <OrderItemsEditor order={selectedOrder} onUpdated={() => refreshOrder(selectedOrder.id!)} />
+                    </div>
+
+                    {/* Shipments */}
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Shipments</h4>
+                      <OrderShipments order={selectedOrder} onUpdated={() => refreshOrder(selectedOrder.id!)} />
                     </div>
+
+                    {/* Refunds */}
+                    {selectedOrder.paymentStatus === "success" && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Refunds</h4>
+                        <OrderRefunds order={selectedOrder} onUpdated={() => refreshOrder(selectedOrder.id!)} />
+                      </div>
+                    )}
+
+                    {/* Returns */}
+                    {selectedOrder.paymentStatus === "success" && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Returns</h4>
+                        <OrderReturns order={selectedOrder} onUpdated={() => refreshOrder(selectedOrder.id!)} />
+                      </div>
+                    )}
+
+                    {/* Internal Comments */}
+                    {selectedOrder.id && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Internal Comments</h4>
+                        <OrderComments orderId={selectedOrder.id} />
+                      </div>
+                    )}
+
+                    {/* Status History */}
+                    {selectedOrder.id && (
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Status History</h4>
+                        <OrderTimeline orderId={selectedOrder.id} refreshKey={selectedOrder} />
+                      </div>
+                    )}
                   </div>
                 )}
               </DialogContent>
             </Dialog>
 
+            <ManualOrderDialog open={isNewOrderOpen} onOpenChange={setIsNewOrderOpen} onCreated={fetchOrders} />
+
+            <OrderExportDialog
+              open={isExportOpen}
+              onOpenChange={setIsExportOpen}
+              filters={filters}
+              orderIds={exportOrderIds}
+            />
+
+            {/* Bulk Note Dialog */}
+            <Dialog open={isNoteOpen} onOpenChange={setIsNoteOpen}>
+              <DialogContent>
+                <form onSubmit={handleBulkNote} className="space-y-4">
+                  <DialogHeader>
+                    <DialogTitle>Add Internal Note</DialogTitle>
+                    <DialogDescription>
+                      The note is added to the status history of {selectedList.length} selected order
+                      {selectedList.length === 1 ? "" : "s"}. Customers never see it.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <Textarea rows={4} value={bulkNote} onChange={(e) => setBulkNote(e.target.value)} />
+                  <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setIsNoteOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={bulkRunning || !bulkNote.trim()}>
+                      {bulkRunning ? "Saving..." : "Add Note"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+
             {/* Pagination Controls */}
-            {filteredOrders.length > itemsPerPage && (
+            {searchScope === "page" && totalCount > itemsPerPage && (
               <div className="flex items-center justify-between px-2 py-4">
                 <div className="flex items-center space-x-2">
                   <p className="text-muted-foreground text-sm">
-                    Showing {startIndex + 1} to {Math.min(endIndex, filteredOrders.length)} of {filteredOrders.length}{" "}
-                    orders
+                    Showing {startIndex + 1} to {endIndex} of {totalCount} orders (page {currentPage} of {totalPages})
                   </p>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -428,18 +1197,19 @@ export default function OrdersPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handlePageChange(currentPage - 1)}
-                    disabled={currentPage === 1}
+                    disabled={currentPage === 1 || pageLoading}
                   >
                     <ChevronLeft className="h-4 w-4" />
                     Previous
                   </Button>
                   <div className="flex items-center space-x-1">
-                    {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                    {visiblePages.map((page) => (
                       <Button
                         key={page}
                         variant={currentPage === page ? "default" : "outline"}
                         size="sm"
                         onClick={() => handlePageChange(page)}
+                        disabled={page > pageCursors.length || pageLoading}
                         className="h-8 w-8 p-0"
                       >
                         {page}
@@ -450,7 +1220,7 @@ export default function OrdersPage() {
                     variant="outline"
                     size="sm"
                     onClick={() => handlePageChange(currentPage + 1)}
-                    disabled={currentPage === totalPages}
+                    disabled={!hasMore || pageLoading}
                   >
                     Next
                     <ChevronRight className="h-4 w-4" />
@@ -464,3 +1234,20 @@ export default function OrdersPage() {
     </AdminLayout>
   );
 }
+
+export default function OrdersPage() {
+  // useSearchParams needs a Suspense boundary in the App Router
+  return (
+    <Suspense
+      fallback={
+        <AdminLayout title="Orders">
+          <div className="flex min-h-[400px] items-center justify-center">
+            <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+          </div>
+        </AdminLayout>
+      }
+    >
+      <OrdersPageContent />
+    </Suspense>
+  );
+}
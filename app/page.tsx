@@ -4,10 +4,11 @@ import { AdminLayout } from "@/components/AdminLayout";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOrderNotifications } from "@/contexts/OrderNotificationsContext";
 import { AdminService, AdminStats, TopProduct } from "@/lib/adminService";
 import { Order } from "@/lib/orderService";
 import { DollarSign, Package, ShoppingCart, Users } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
 // Helper functions
 const formatCurrency = (amount: number) => {
@@ -31,6 +32,18 @@ const getStatusVariant = (status: string) => {
   }
 };
 
+const describeLoadError = (error: unknown) => {
+  const errorMessage = error instanceof Error ? error.message : "Failed to fetch dashboard data";
+
+  // Don't set fallback data - let user know they need to fix Firebase rules
+  if (errorMessage.includes("Firestore permissions denied")) {
+    return "❌ Firebase Security Rules Issue: " + errorMessage;
+  } else if (errorMessage.includes("not authenticated")) {
+    return "🔒 Please sign in to access the admin dashboard";
+  }
+  return "⚠️ " + errorMessage;
+};
+
 export default function Home() {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [recentOrders, setRecentOrders] = useState<Order[]>([]);
@@ -38,41 +51,36 @@ export default function Home() {
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch dashboard data
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
+  const { lastActivityAt } = useOrderNotifications();
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = useCallback(async (background: boolean = false) => {
     try {
-      setIsLoadingData(true);
-      const [dashboardStats, orders, products] = await Promise.all([
+      if (!background) setIsLoadingData(true);
+      const [dashboardStats, products] = await Promise.all([
         AdminService.getDashboardStats(),
-        AdminService.getRecentOrders(5),
         AdminService.getTopProducts(4),
       ]);
 
       setStats(dashboardStats);
-      setRecentOrders(orders);
       setTopProducts(products);
       setError(null); // Clear any previous errors
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to fetch dashboard data";
-      setError(errorMessage);
-
-      // Don't set fallback data - let user know they need to fix Firebase rules
-      if (errorMessage.includes("Firestore permissions denied")) {
-        setError("❌ Firebase Security Rules Issue: " + errorMessage);
-      } else if (errorMessage.includes("not authenticated")) {
-        setError("🔒 Please sign in to access the admin dashboard");
-      } else {
-        setError("⚠️ " + errorMessage);
-      }
+      setError(describeLoadError(error));
     } finally {
       setIsLoadingData(false);
     }
-  };
+  }, []);
+
+  // Recent orders update live as orders come in
+  useEffect(() => {
+    return AdminService.subscribeToRecentOrders(5, setRecentOrders, (error) => setError(describeLoadError(error)));
+  }, []);
+
+  // Totals are aggregates, so reload them whenever an order is created or updated
+  useEffect(() => {
+    fetchDashboardData(lastActivityAt !== null);
+  }, [lastActivityAt, fetchDashboardData]);
 
   const renderDashboard = () => {
     if (error) {
@@ -107,7 +115,7 @@ match /orders/{orderId} {
                 </div>
               )}
               <button
-                onClick={fetchDashboardData}
+                onClick={() => fetchDashboardData()}
                 className="bg-primary hover:bg-primary/90 rounded-md px-4 py-2 text-white transition-colors"
               >
                 Try Again
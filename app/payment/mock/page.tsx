@@ -0,0 +1,201 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MockBill, MockPaymentOutcome } from "@/lib/mockPayment";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const getOutcomeVariant = (outcome: MockPaymentOutcome) => {
+  switch (outcome) {
+    case "success":
+      return "default" as const;
+    case "failed":
+      return "destructive" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+/**
+ * Checkout page of the mock payment gateway. Stands in for the gateway's payment page in
+ * development: each button records a payment attempt and sends its callback to the app.
+ */
+function MockPaymentPageContent() {
+  const billCode = useSearchParams().get("billcode");
+  const [bill, setBill] = useState<MockBill | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchBill = useCallback(async () => {
+    if (!billCode) {
+      setError("No bill code in the payment link");
+      setLoading(false);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/payment/mock?billcode=${encodeURIComponent(billCode)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to load bill");
+      }
+      setBill(result.data);
+      setAmount((current) => current || result.data.amount.toFixed(2));
+      setError(null);
+    } catch (error) {
+      console.error("Error loading mock bill:", error);
+      setError(error instanceof Error ? error.message : "Failed to load bill");
+    } finally {
+      setLoading(false);
+    }
+  }, [billCode]);
+
+  useEffect(() => {
+    fetchBill();
+  }, [fetchBill]);
+
+  const handlePay = async (outcome: MockPaymentOutcome) => {
+    if (!bill) return;
+    const paidAmount = parseFloat(amount);
+    if (isNaN(paidAmount) || paidAmount <= 0) {
+      toast.error("Enter a valid amount");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/payment/mock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ billCode: bill.billCode, outcome, amount: paidAmount }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Mock payment failed");
+      }
+
+      const { callbackStatus } = result.data as { callbackStatus: number };
+      if (callbackStatus < 400) {
+        toast.success(`Callback sent and accepted (HTTP ${callbackStatus})`);
+      } else {
+        toast.error(`Callback sent but rejected (HTTP ${callbackStatus})`);
+      }
+      await fetchBill();
+    } catch (error) {
+      console.error("Error sending mock payment:", error);
+      toast.error(error instanceof Error ? error.message : "Mock payment failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-primary">Mock Payment Gateway</CardTitle>
+          <CardDescription>No real money is taken. Choose how this payment attempt should end.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+            </div>
+          ) : error || !bill ? (
+            <p className="text-muted-foreground py-8 text-center">{error ?? "Bill not found"}</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-2 text-sm">
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Bill:</span>
+                  <span className="font-mono">{bill.billCode}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Order:</span>
+                  <span className="font-mono">{bill.orderId}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Customer:</span>
+                  <span>{bill.customerName}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Amount due:</span>
+                  <span className="font-semibold">{formatCurrency(bill.amount)}</span>
+                </div>
+                <p className="text-muted-foreground text-xs">{bill.description}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="mock-amount">Amount paid (change it to simulate a mismatch)</Label>
+                <Input
+                  id="mock-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => handlePay("success")} disabled={submitting}>
+                  Pay
+                </Button>
+                <Button variant="destructive" onClick={() => handlePay("failed")} disabled={submitting}>
+                  Fail Payment
+                </Button>
+                <Button variant="outline" onClick={() => handlePay("pending")} disabled={submitting}>
+                  Leave Pending
+                </Button>
+              </div>
+
+              {bill.transactions.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Attempts</h3>
+                  {bill.transactions.map((transaction) => (
+                    <div key={transaction.refno} className="flex items-center justify-between text-sm">
+                      <span className="font-mono text-xs">{transaction.refno}</span>
+                      <span>{formatCurrency(transaction.amount)}</span>
+                      <Badge variant={getOutcomeVariant(transaction.status)} className="capitalize">
+                        {transaction.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function MockPaymentPage() {
+  // useSearchParams needs a Suspense boundary in the App Router
+  return (
+    <Suspense
+      fallback={
+        <div className="bg-background flex min-h-screen items-center justify-center">
+          <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+        </div>
+      }
+    >
+      <MockPaymentPageContent />
+    </Suspense>
+  );
+}
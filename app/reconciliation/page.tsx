@@ -0,0 +1,240 @@
+"use client";
+
+import { AdminLayout } from "@/components/AdminLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AdminService } from "@/lib/adminService";
+import {
+  describeGatewayFix,
+  DISCREPANCY_TYPE_LABELS,
+  DiscrepancyType,
+  GATEWAY_PAYMENT_STATE_LABELS,
+  PaymentDiscrepancy,
+  RECONCILIATION_WINDOW_DAYS,
+  ReconciliationRun,
+} from "@/lib/paymentReconciliation";
+import { CheckCircle2, RefreshCw, Scale } from "lucide-react";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const getDiscrepancyVariant = (type: DiscrepancyType) => {
+  switch (type) {
+    case "paid_at_gateway":
+      return "default" as const;
+    case "unpaid_at_gateway":
+      return "destructive" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+export default function ReconciliationPage() {
+  const [run, setRun] = useState<ReconciliationRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+
+  const fetchLatestRun = useCallback(async () => {
+    try {
+      const [latest] = await AdminService.getReconciliationRuns(1);
+      setRun(latest ?? null);
+      setError(null);
+    } catch (error) {
+      console.error("Error fetching reconciliation runs:", error);
+      setError("Failed to fetch reconciliation results. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLatestRun();
+  }, [fetchLatestRun]);
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      await AdminService.runPaymentReconciliation();
+      await fetchLatestRun();
+      toast.success("Reconciliation completed");
+    } catch (error) {
+      console.error("Error running reconciliation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to run reconciliation");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleApply = async (discrepancy: PaymentDiscrepancy) => {
+    if (!run?.id) return;
+    if (!confirm(`${describeGatewayFix(discrepancy)} for order ${discrepancy.orderId}?`)) return;
+
+    setApplyingId(discrepancy.orderDocId);
+    try {
+      const message = await AdminService.applyGatewayPaymentState(run.id, discrepancy.orderDocId);
+      await fetchLatestRun();
+      toast.success(`Order ${discrepancy.orderId}: ${message}`);
+    } catch (error) {
+      console.error("Error applying gateway state:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to apply gateway state");
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout title="Reconciliation">
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="flex items-center space-x-2">
+            <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+            <span className="text-muted-foreground">Loading reconciliation...</span>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const openDiscrepancies = run?.discrepancies.filter((discrepancy) => !discrepancy.resolvedAt) ?? [];
+
+  return (
+    <AdminLayout title="Reconciliation">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="text-primary">Payment Reconciliation</CardTitle>
+              <CardDescription>
+                Orders from the last {RECONCILIATION_WINDOW_DAYS} days whose payment status differs from their ToyyibPay
+                bill
+              </CardDescription>
+            </div>
+            <Button onClick={handleRunNow} disabled={running}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${running ? "animate-spin" : ""}`} />
+              {running ? "Running..." : "Run Now"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="py-8 text-center">
+                <p className="text-muted-foreground mb-4">{error}</p>
+                <Button onClick={fetchLatestRun}>Try Again</Button>
+              </div>
+            ) : !run ? (
+              <div className="py-8 text-center">
+                <Scale className="text-muted-foreground mx-auto mb-4 h-12 w-12" />
+                <p className="text-muted-foreground">Reconciliation hasn&apos;t run yet</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-muted-foreground mb-4 text-sm">
+                  Last run {run.finishedAt.toDate().toLocaleString()} by {run.triggeredBy} · {run.checked} orders
+                  checked
+                  {run.failed > 0 && ` · ${run.failed} couldn't be fetched from ToyyibPay`}
+                  {!run.complete && " · only the newest orders were checked"}
+                </p>
+
+                {run.discrepancies.length > 0 ? (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Order</TableHead>
+                          <TableHead>Customer</TableHead>
+                          <TableHead>Discrepancy</TableHead>
+                          <TableHead>Firestore</TableHead>
+                          <TableHead>Gateway</TableHead>
+                          <TableHead>Total</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {run.discrepancies.map((discrepancy) => (
+                          <TableRow key={discrepancy.orderDocId}>
+                            <TableCell>
+                              <Link
+                                href={`/orders?order=${discrepancy.orderDocId}`}
+                                className="font-mono text-sm hover:underline"
+                              >
+                                {discrepancy.orderId}
+                              </Link>
+                              <div className="text-muted-foreground font-mono text-xs">{discrepancy.billCode}</div>
+                            </TableCell>
+                            <TableCell>{discrepancy.customerName}</TableCell>
+                            <TableCell>
+                              <Badge variant={getDiscrepancyVariant(discrepancy.type)}>
+                                {DISCREPANCY_TYPE_LABELS[discrepancy.type]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="capitalize">{discrepancy.orderPaymentStatus}</TableCell>
+                            <TableCell>
+                              <div>{GATEWAY_PAYMENT_STATE_LABELS[discrepancy.gateway.state]}</div>
+                              {discrepancy.gateway.transactionId && (
+                                <div className="text-muted-foreground font-mono text-xs">
+                                  {discrepancy.gateway.transactionId}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div>{formatCurrency(discrepancy.orderTotal)}</div>
+                              {typeof discrepancy.gateway.amount === "number" &&
+                                Math.round(discrepancy.gateway.amount * 100) !==
+                                  Math.round(discrepancy.orderTotal * 100) && (
+                                  <div className="text-destructive text-xs">
+                                    Paid {formatCurrency(discrepancy.gateway.amount)}
+                                  </div>
+                                )}
+                            </TableCell>
+                            <TableCell>
+                              {discrepancy.resolvedAt ? (
+                                <div className="text-muted-foreground flex items-center gap-1 text-xs">
+                                  <CheckCircle2 className="h-4 w-4" />
+                                  Fixed by {discrepancy.resolvedBy}
+                                </div>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title={describeGatewayFix(discrepancy)}
+                                  disabled={applyingId !== null}
+                                  onClick={() => handleApply(discrepancy)}
+                                >
+                                  {applyingId === discrepancy.orderDocId ? "Applying..." : "Apply Gateway State"}
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <div className="py-8 text-center">
+                    <CheckCircle2 className="text-muted-foreground mx-auto mb-4 h-12 w-12" />
+                    <p className="text-muted-foreground">Every checked order matches ToyyibPay</p>
+                  </div>
+                )}
+
+                {run.discrepancies.length > 0 && openDiscrepancies.length === 0 && (
+                  <p className="text-muted-foreground mt-4 text-sm">All discrepancies in this run have been fixed</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { AdminLayout } from "@/components/AdminLayout";
+import { ReturnActions } from "@/components/ReturnActions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  describeReturnItems,
+  RETURN_CONDITION_LABELS,
+  RETURN_RESOLUTION_LABELS,
+  RETURN_STATUS_LABELS,
+  ReturnRequest,
+  ReturnStatus,
+} from "@/lib/orderReturns";
+import { ReturnService } from "@/lib/returnService";
+import { Eye, PackageX, Search } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const getReturnStatusVariant = (status: ReturnStatus) => {
+  switch (status) {
+    case "completed":
+      return "default" as const;
+    case "rejected":
+      return "destructive" as const;
+    case "requested":
+      return "outline" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+const STATUS_FILTERS: (ReturnStatus | "all")[] = [
+  "all",
+  "requested",
+  "approved",
+  "received",
+  "inspected",
+  "completed",
+  "rejected",
+];
+
+function ReturnsPageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  // Status filter and open return live in the URL so links from an order land on the right return
+  const statusParam = searchParams.get("status");
+  const statusFilter: ReturnStatus | "all" =
+    statusParam && statusParam in RETURN_STATUS_LABELS ? (statusParam as ReturnStatus) : "all";
+  const selectedId = searchParams.get("return");
+  const selectedReturn = returns.find((request) => request.id === selectedId) ?? null;
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    const queryString = params.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  };
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      setReturns(await ReturnService.getReturns());
+      setError(null);
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      setError("Failed to fetch returns. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = { all: returns.length };
+    returns.forEach((request) => {
+      counts[request.status] = (counts[request.status] || 0) + 1;
+    });
+    return counts;
+  }, [returns]);
+
+  const filteredReturns = returns.filter((request) => {
+    const term = searchTerm.trim().toLowerCase();
+    const matchesSearch =
+      !term ||
+      request.returnNumber.toLowerCase().includes(term) ||
+      request.orderId.toLowerCase().includes(term) ||
+      request.customerName.toLowerCase().includes(term) ||
+      request.customerEmail.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === "all" || request.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  if (loading) {
+    return (
+      <AdminLayout title="Returns">
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="flex items-center space-x-2">
+            <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+            <span className="text-muted-foreground">Loading returns...</span>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Returns">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-primary">Returns & Exchanges</CardTitle>
+            <CardDescription>
+              Approve, receive and inspect returned goods, then restock, refund or exchange
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="py-8 text-center">
+                <p className="text-muted-foreground mb-4">{error}</p>
+                <Button onClick={fetchReturns}>Try Again</Button>
+              </div>
+            ) : (
+              <>
+                <div className="mb-4 flex flex-wrap gap-2">
+                  {STATUS_FILTERS.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={statusFilter === status ? "default" : "outline"}
+                      onClick={() => updateParams({ status: status === "all" ? null : status })}
+                    >
+                      {status === "all" ? "All" : RETURN_STATUS_LABELS[status]} ({statusCounts[status] || 0})
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="relative mb-6">
+                  <Search className="text-muted-foreground absolute top-3 left-3 h-4 w-4" />
+                  <Input
+                    placeholder="Search by return number, order ID or customer..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+
+                {filteredReturns.length > 0 ? (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Return</TableHead>
+                          <TableHead>Order</TableHead>
+                          <TableHead>Customer</TableHead>
+                          <TableHead>Items</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Opened</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filteredReturns.map((request) => (
+                          <TableRow key={request.id}>
+                            <TableCell className="font-mono text-sm">{request.returnNumber}</TableCell>
+                            <TableCell className="font-mono text-sm">{request.orderId}</TableCell>
+                            <TableCell>
+                              <div>
+                                <div className="font-medium">{request.customerName}</div>
+                                <div className="text-muted-foreground text-sm">{request.customerEmail}</div>
+                              </div>
+                            </TableCell>
+                            <TableCell className="max-w-xs text-xs">{describeReturnItems(request.items)}</TableCell>
+                            <TableCell>
+                              <Badge variant={getReturnStatusVariant(request.status)}>
+                                {RETURN_STATUS_LABELS[request.status]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{request.createdAt.toDate().toLocaleDateString()}</TableCell>
+                            <TableCell>
+                              <Button variant="ghost" size="sm" onClick={() => updateParams({ return: request.id! })}>
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <div className="py-8 text-center">
+                    <PackageX className="text-muted-foreground mx-auto mb-4 h-12 w-12" />
+                    <p className="text-muted-foreground">
+                      {searchTerm || statusFilter !== "all" ? "No returns match your filters" : "No returns yet"}
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selectedReturn} onOpenChange={(open) => !open && updateParams({ return: null })}>
+          <DialogContent className="max-h-[90vh] !max-w-3xl overflow-y-auto">
+            {selectedReturn && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>Return {selectedReturn.returnNumber}</DialogTitle>
+                  <DialogDescription>
+                    Order {selectedReturn.orderId} · {selectedReturn.customerName} · opened by{" "}
+                    {selectedReturn.requestedBy === "customer" ? "the customer" : "staff"}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6">
+                  <div className="grid gap-2 text-sm sm:grid-cols-2">
+                    <div className="grid grid-cols-2">
+                      <span className="text-muted-foreground">Status:</span>
+                      <Badge variant={getReturnStatusVariant(selectedReturn.status)}>
+                        {RETURN_STATUS_LABELS[selectedReturn.status]}
+                      </Badge>
+                    </div>
+                    <div className="grid grid-cols-2">
+                      <span className="text-muted-foreground">Reason:</span>
+                      <span>{selectedReturn.reason}</span>
+                    </div>
+                    {selectedReturn.condition && (
+                      <div className="grid grid-cols-2">
+                        <span className="text-muted-foreground">Condition:</span>
+                        <span>{RETURN_CONDITION_LABELS[selectedReturn.condition]}</span>
+                      </div>
+                    )}
+                    {selectedReturn.resolution && (
+                      <div className="grid grid-cols-2">
+                        <span className="text-muted-foreground">Resolution:</span>
+                        <span>
+                          {RETURN_RESOLUTION_LABELS[selectedReturn.resolution]}
+                          {selectedReturn.refundAmount !== undefined &&
+                            ` · ${formatCurrency(selectedReturn.refundAmount)}`}
+                          {selectedReturn.restocked && " · restocked"}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Returned Items</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead>Size</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedReturn.items.map((item) => (
+                          <TableRow key={item.itemKey}>
+                            <TableCell>{item.name}</TableCell>
+                            <TableCell>{item.size || "—"}</TableCell>
+                            <TableCell>{item.quantity}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(item.price * item.quantity)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {selectedReturn.exchangeItems && selectedReturn.exchangeItems.length > 0 && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Replacements sent:</span>{" "}
+                        {describeReturnItems(selectedReturn.exchangeItems)}
+                      </p>
+                    )}
+                  </div>
+
+                  <ReturnActions request={selectedReturn} onUpdated={fetchReturns} />
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">History</h4>
+                    <ol className="border-border relative ml-2 space-y-4 border-l pl-4">
+                      {selectedReturn.events.map((event, index) => (
+                        <li key={index} className="relative">
+                          <span className="bg-primary absolute top-1.5 -left-[21px] h-2.5 w-2.5 rounded-full" />
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="font-medium">{RETURN_STATUS_LABELS[event.status]}</span>
+                            <span className="text-muted-foreground text-xs">
+                              {event.createdAt.toDate().toLocaleString()} · {event.actorName}
+                            </span>
+                          </div>
+                          {event.note && <p className="text-muted-foreground mt-1 text-sm">{event.note}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default function ReturnsPage() {
+  // useSearchParams needs a Suspense boundary in the App Router
+  return (
+    <Suspense
+      fallback={
+        <AdminLayout title="Returns">
+          <div className="flex min-h-[400px] items-center justify-center">
+            <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+          </div>
+        </AdminLayout>
+      }
+    >
+      <ReturnsPageContent />
+    </Suspense>
+  );
+}
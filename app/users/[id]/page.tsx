@@ -0,0 +1,291 @@
+"use client";
+
+import { AdminLayout } from "@/components/AdminLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { calculateCustomerStats, CustomerStats } from "@/lib/customerInsights";
+import { FULFILLMENT_STATUS_LABELS } from "@/lib/orderConstants";
+import { getFulfillmentStatus, Order, OrderService } from "@/lib/orderService";
+import { ProductAdminService } from "@/lib/productAdminService";
+import { UserProfile, UserService } from "@/lib/userService";
+import { ArrowLeft, CreditCard, DollarSign, Eye, ShoppingCart, XCircle } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+const getStatusVariant = (status: string) => {
+  switch (status.toLowerCase()) {
+    case "success":
+      return "default" as const;
+    case "pending":
+      return "secondary" as const;
+    case "failed":
+      return "destructive" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+export default function CustomerPage() {
+  const { id } = useParams<{ id: string }>();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [stats, setStats] = useState<CustomerStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCustomer = async () => {
+      try {
+        setLoading(true);
+        const [profileData, ordersData, products] = await Promise.all([
+          UserService.getUserProfile(id),
+          OrderService.getOrdersByUserId(id),
+          ProductAdminService.getProducts(),
+        ]);
+        if (cancelled) return;
+
+        const categoriesByProductId = Object.fromEntries(products.map((product) => [product.id, product.category]));
+        setProfile(profileData);
+        setOrders(ordersData);
+        setStats(calculateCustomerStats(ordersData, categoriesByProductId));
+        setError(profileData ? null : "Customer not found");
+      } catch (error) {
+        console.error("Error fetching customer:", error);
+        if (!cancelled) setError("Failed to load customer. Please try again.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCustomer();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (loading) {
+    return (
+      <AdminLayout title="Customer">
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="flex items-center space-x-2">
+            <div className="border-primary h-8 w-8 animate-spin rounded-full border-b-2"></div>
+            <span className="text-muted-foreground">Loading customer...</span>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !profile || !stats) {
+    return (
+      <AdminLayout title="Customer">
+        <div className="py-8 text-center">
+          <p className="text-muted-foreground mb-4">{error ?? "Customer not found"}</p>
+          <Button asChild variant="outline">
+            <Link href="/users">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Users
+            </Link>
+          </Button>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const fullName = `${profile.firstName} ${profile.lastName}`.trim() || profile.email;
+
+  return (
+    <AdminLayout title="Customer">
+      <div className="space-y-6">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/users">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Users
+          </Link>
+        </Button>
+
+        {/* Lifetime Statistics */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Lifetime Value</CardTitle>
+              <DollarSign className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-primary text-2xl font-bold">{formatCurrency(stats.lifetimeValue)}</div>
+              <p className="text-muted-foreground text-xs">Paid orders, net of refunds</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Average Order</CardTitle>
+              <CreditCard className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-primary text-2xl font-bold">{formatCurrency(stats.averageOrderValue)}</div>
+              <p className="text-muted-foreground text-xs">Per paid order</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Orders</CardTitle>
+              <ShoppingCart className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-primary text-2xl font-bold">{stats.paidOrderCount}</div>
+              <p className="text-muted-foreground text-xs">Paid, of {stats.orderCount} placed</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Failed Payments</CardTitle>
+              <XCircle className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-primary text-2xl font-bold">{stats.failedPayments}</div>
+              <p className="text-muted-foreground text-xs">Orders whose payment failed</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          {/* Profile */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">{fullName}</CardTitle>
+              <CardDescription>Customer since {profile.createdAt.toDate().toLocaleDateString()}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-2 text-sm">
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Email:</span>
+                  <span>{profile.email}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Phone:</span>
+                  <span>{profile.phoneNumber || "N/A"}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Gender:</span>
+                  <span className="capitalize">{profile.gender || "N/A"}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Address:</span>
+                  <span>{profile.address || "N/A"}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Role:</span>
+                  <span className="capitalize">{profile.role || "user"}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Purchase Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">Purchase Summary</CardTitle>
+              <CardDescription>Based on paid orders</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-2 text-sm">
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">First Purchase:</span>
+                  <span>{stats.firstPurchaseAt ? stats.firstPurchaseAt.toDate().toLocaleDateString() : "N/A"}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Last Purchase:</span>
+                  <span>{stats.lastPurchaseAt ? stats.lastPurchaseAt.toDate().toLocaleDateString() : "N/A"}</span>
+                </div>
+                <div className="grid grid-cols-2">
+                  <span className="text-muted-foreground">Favourite Categories:</span>
+                  <span className="flex flex-wrap gap-1">
+                    {stats.favouriteCategories.length > 0
+                      ? stats.favouriteCategories.map((share) => (
+                          <Badge key={share.category} variant="secondary">
+                            {share.category} ({share.quantity})
+                          </Badge>
+                        ))
+                      : "N/A"}
+                  </span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Order History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-primary">Order History</CardTitle>
+            <CardDescription>Every order placed by this customer, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {orders.length > 0 ? (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order ID</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Payment</TableHead>
+                      <TableHead>Fulfillment</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.orderId}</TableCell>
+                        <TableCell>
+                          {order.items.length} item{order.items.length > 1 ? "s" : ""}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={getStatusVariant(order.status)}>
+                            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{FULFILLMENT_STATUS_LABELS[getFulfillmentStatus(order)]}</TableCell>
+                        <TableCell className="text-primary font-semibold">
+                          {formatCurrency(order.totalAmount)}
+                        </TableCell>
+                        <TableCell>{order.createdAt.toDate().toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Button asChild variant="ghost" size="sm">
+                            <Link href={`/orders?order=${order.id}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-muted-foreground py-8 text-center">No orders yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
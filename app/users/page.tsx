@@ -17,7 +17,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
 import { UserProfile, UserService } from "@/lib/userService";
-import { ChevronLeft, ChevronRight, Download, Edit, Search, Shield, User, Users as UsersIcon } from "lucide-react";
+import { ChevronLeft, ChevronRight, Download, Edit, Eye, Search, Shield, User, Users as UsersIcon } from "lucide-react";
+import Link from "next/link";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import * as XLSX from "xlsx";
@@ -297,6 +298,11 @@ export default function UsersPage() {
                             <TableCell>{user.createdAt.toDate().toLocaleDateString()}</TableCell>
                             <TableCell>
                               <div className="flex gap-2">
+                                <Button asChild variant="ghost" size="sm">
+                                  <Link href={`/users/${user.uid}`}>
+                                    <Eye className="h-4 w-4" />
+                                  </Link>
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -1,6 +1,7 @@
 "use client";
 
 import { AdminSidebar } from "@/components/AdminSidebar";
+import { PaymentModeBadge } from "@/components/PaymentModeBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
@@ -64,6 +65,7 @@ export function AdminLayout({ children, title }: AdminLayoutProps) {
               <h1 className="text-primary text-xl font-semibold">{title}</h1>
             </div>
             <div className="flex items-center gap-2">
+              <PaymentModeBadge />
               <Badge variant="outline" className="text-primary border-primary">
                 Welcome, {user.displayName || user.email}
               </Badge>
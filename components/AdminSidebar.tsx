@@ -7,10 +7,12 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
-import { BarChart3, Package, ShoppingCart, TrendingUp, Users } from "lucide-react";
+import { useOrderNotifications } from "@/contexts/OrderNotificationsContext";
+import { BarChart3, Package, PackageX, Scale, ShoppingCart, TrendingUp, Users } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 
@@ -18,12 +20,15 @@ const sidebarItems = [
   { href: "/", label: "Dashboard", icon: BarChart3 },
   { href: "/products", label: "Products", icon: Package },
   { href: "/orders", label: "Orders", icon: ShoppingCart },
+  { href: "/returns", label: "Returns", icon: PackageX },
+  { href: "/reconciliation", label: "Reconciliation", icon: Scale },
   { href: "/users", label: "Users", icon: Users },
   { href: "/analytics", label: "Analytics", icon: TrendingUp },
 ];
 
 export function AdminSidebar() {
   const pathname = usePathname();
+  const { unreadCount } = useOrderNotifications();
 
   return (
     <Sidebar className="border-border border-r">
@@ -36,7 +41,7 @@ export function AdminSidebar() {
                 <SidebarMenuItem key={item.href}>
                   <SidebarMenuButton
                     asChild
-                    isActive={pathname === item.href}
+                    isActive={pathname === item.href || (item.href !== "/" && pathname.startsWith(`${item.href}/`))}
                     className="data-[active=true]:bg-primary/10 data-[active=true]:text-primary"
                   >
                     <Link href={item.href}>
@@ -44,6 +49,9 @@ export function AdminSidebar() {
                       <span>{item.label}</span>
                     </Link>
                   </SidebarMenuButton>
+                  {item.href === "/orders" && unreadCount > 0 && (
+                    <SidebarMenuBadge className="bg-primary text-primary-foreground">{unreadCount}</SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
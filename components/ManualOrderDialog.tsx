@@ -0,0 +1,472 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Product } from "@/data/products";
+import { AdminService } from "@/lib/adminService";
+import {
+  ManualOrderInput,
+  ORDER_CHANNEL_LABELS,
+  OrderItem,
+  OrderService,
+  PAYMENT_METHOD_LABELS,
+} from "@/lib/orderService";
+import { ProductAdminService } from "@/lib/productAdminService";
+import { UserProfile, UserService } from "@/lib/userService";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface ManualOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+type LineItem = Omit<OrderItem, "subtotal">;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+// Product prices are stored as display strings, e.g. "RM529.00"
+const parsePrice = (price: string) => parseFloat(price.replace(/[^0-9.]/g, "")) || 0;
+
+const emptyCustomer = { firstName: "", lastName: "", email: "", phoneNumber: "" };
+const emptyLine = { productId: "", size: "", quantity: "1" };
+
+export function ManualOrderDialog({ open, onOpenChange, onCreated }: ManualOrderDialogProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<UserProfile[]>([]);
+
+  const [channel, setChannel] = useState<ManualOrderInput["channel"]>("whatsapp");
+  const [paymentMethod, setPaymentMethod] = useState<ManualOrderInput["paymentMethod"]>("gateway");
+  const [providerLabel, setProviderLabel] = useState("payment gateway");
+  const [customerMode, setCustomerMode] = useState<"existing" | "new">("existing");
+  const [customerSearch, setCustomerSearch] = useState("");
+  const [customerId, setCustomerId] = useState("");
+  const [newCustomer, setNewCustomer] = useState(emptyCustomer);
+  const [items, setItems] = useState<LineItem[]>([]);
+  const [line, setLine] = useState(emptyLine);
+  const [shippingFee, setShippingFee] = useState("");
+  const [discount, setDiscount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    Promise.all([ProductAdminService.getProducts(), UserService.getAllUsers()])
+      .then(([productList, userList]) => {
+        setProducts(productList);
+        setCustomers(userList.filter((user) => user.role !== "admin"));
+      })
+      .catch((error) => {
+        console.error("Error loading products and customers:", error);
+        toast.error("Failed to load products and customers");
+      });
+    AdminService.getPaymentGatewayMode()
+      .then((mode) => setProviderLabel(mode.providerLabel))
+      .catch((error) => console.error("Error loading payment gateway configuration:", error));
+  }, [open]);
+
+  const resetForm = () => {
+    setChannel("whatsapp");
+    setPaymentMethod("gateway");
+    setCustomerMode("existing");
+    setCustomerSearch("");
+    setCustomerId("");
+    setNewCustomer(emptyCustomer);
+    setItems([]);
+    setLine(emptyLine);
+    setShippingFee("");
+    setDiscount("");
+    setNotes("");
+    setPaymentUrl(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  const selectedProduct = products.find((product) => product.id === line.productId);
+  const matchingCustomers = customers
+    .filter((customer) =>
+      `${customer.firstName} ${customer.lastName} ${customer.email} ${customer.phoneNumber}`
+        .toLowerCase()
+        .includes(customerSearch.toLowerCase()),
+    )
+    .slice(0, 50);
+
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const total = Math.max(0, subtotal + (parseFloat(shippingFee) || 0) - (parseFloat(discount) || 0));
+
+  const handleAddItem = () => {
+    const quantity = parseInt(line.quantity) || 0;
+    if (!selectedProduct || quantity <= 0) {
+      toast.error("Choose a product and quantity");
+      return;
+    }
+    if (selectedProduct.sizes?.length && !line.size) {
+      toast.error("Choose a size");
+      return;
+    }
+
+    setItems((prev) => {
+      const existing = prev.find((item) => item.id === selectedProduct.id && (item.size ?? "") === line.size);
+      if (existing) {
+        return prev.map((item) => (item === existing ? { ...item, quantity: item.quantity + quantity } : item));
+      }
+      return [
+        ...prev,
+        {
+          id: selectedProduct.id,
+          name: selectedProduct.name,
+          price: parsePrice(selectedProduct.price),
+          quantity,
+          size: line.size,
+        },
+      ];
+    });
+    setLine(emptyLine);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+
+      let customer: UserProfile | undefined;
+      let createdCustomer: UserProfile | undefined;
+      if (customerMode === "existing") {
+        customer = customers.find((c) => c.uid === customerId);
+        if (!customer) throw new Error("Choose a customer");
+      } else {
+        if (!newCustomer.firstName.trim() || !newCustomer.email.trim()) {
+          throw new Error("New customers need at least a first name and email");
+        }
+        if (items.length === 0) throw new Error("Add at least one item");
+
+        // Reuse the profile of a customer who already has one; otherwise it's saved with the order
+        customer = (await UserService.findUserByEmail(newCustomer.email)) ?? undefined;
+        if (customer) {
+          toast.info(`Using the existing profile for ${customer.email}`);
+        } else {
+          customer = createdCustomer = UserService.buildCustomerProfile({ ...newCustomer, gender: "" });
+        }
+      }
+
+      const { id } = await OrderService.createManualOrder({
+        channel,
+        userId: customer.uid,
+        customerName: `${customer.firstName} ${customer.lastName}`.trim(),
+        customerEmail: customer.email,
+        customerPhone: customer.phoneNumber,
+        items,
+        shippingFee: parseFloat(shippingFee) || 0,
+        discount: parseFloat(discount) || 0,
+        paymentMethod,
+        notes,
+        newCustomer: createdCustomer,
+      });
+      if (createdCustomer) setCustomers((prev) => [createdCustomer, ...prev]);
+      // Score it now rather than waiting for the risk job
+      AdminService.assessOrderRisk(id).catch((error) => console.error("Error assessing order risk:", error));
+      onCreated();
+
+      if (paymentMethod !== "gateway") {
+        toast.success("Order created and marked as paid");
+        handleOpenChange(false);
+        return;
+      }
+
+      const order = await OrderService.getOrderById(id);
+      try {
+        setPaymentUrl(await OrderService.createPaymentLink(order!));
+        toast.success("Order created. Send the payment link to the customer.");
+      } catch (error) {
+        console.error("Error creating payment link:", error);
+        toast.error(
+          `Order created, but the payment link failed: ${error instanceof Error ? error.message : "Unknown error"}. ` +
+            "Retry from the order details.",
+        );
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      console.error("Error creating manual order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create order");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!paymentUrl) return;
+    await navigator.clipboard.writeText(paymentUrl);
+    toast.success("Payment link copied");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] !max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Order</DialogTitle>
+          <DialogDescription>Record a phone, walk-in or WhatsApp sale</DialogDescription>
+        </DialogHeader>
+
+        {paymentUrl ? (
+          <div className="space-y-4">
+            <p className="text-sm">The order is waiting for payment. Send this {providerLabel} link to the customer:</p>
+            <div className="flex gap-2">
+              <Input readOnly value={paymentUrl} />
+              <Button type="button" variant="outline" onClick={handleCopyLink}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="orderChannel">Channel</Label>
+                <Select value={channel} onValueChange={(value) => setChannel(value as ManualOrderInput["channel"])}>
+                  <SelectTrigger id="orderChannel" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(["whatsapp", "phone", "walk_in"] as const).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ORDER_CHANNEL_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="orderPayment">Payment</Label>
+                <Select
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as ManualOrderInput["paymentMethod"])}
+                >
+                  <SelectTrigger id="orderPayment" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gateway">Send {providerLabel} payment link</SelectItem>
+                    <SelectItem value="cash">Paid by {PAYMENT_METHOD_LABELS.cash.toLowerCase()}</SelectItem>
+                    <SelectItem value="bank_transfer">
+                      Paid by {PAYMENT_METHOD_LABELS.bank_transfer.toLowerCase()}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Customer */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Customer</h4>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  onClick={() => setCustomerMode(customerMode === "existing" ? "new" : "existing")}
+                >
+                  {customerMode === "existing" ? "New customer" : "Choose existing customer"}
+                </Button>
+              </div>
+              {customerMode === "existing" ? (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    placeholder="Search name, email or phone"
+                    value={customerSearch}
+                    onChange={(e) => setCustomerSearch(e.target.value)}
+                  />
+                  <Select value={customerId} onValueChange={setCustomerId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {matchingCustomers.map((customer) => (
+                        <SelectItem key={customer.uid} value={customer.uid}>
+                          {`${customer.firstName} ${customer.lastName}`.trim() || customer.email} ({customer.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    placeholder="First name"
+                    value={newCustomer.firstName}
+                    onChange={(e) => setNewCustomer({ ...newCustomer, firstName: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Last name"
+                    value={newCustomer.lastName}
+                    onChange={(e) => setNewCustomer({ ...newCustomer, lastName: e.target.value })}
+                  />
+                  <Input
+                    type="email"
+                    placeholder="Email"
+                    value={newCustomer.email}
+                    onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Phone (e.g. 0123456789)"
+                    value={newCustomer.phoneNumber}
+                    onChange={(e) => setNewCustomer({ ...newCustomer, phoneNumber: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Items */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Items</h4>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Select
+                  value={line.productId}
+                  onValueChange={(value) => setLine({ ...line, productId: value, size: "" })}
+                >
+                  <SelectTrigger className="w-full sm:flex-1">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name} — {product.price}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={line.size}
+                  onValueChange={(value) => setLine({ ...line, size: value })}
+                  disabled={!selectedProduct?.sizes?.length}
+                >
+                  <SelectTrigger className="w-full sm:w-32">
+                    <SelectValue placeholder="Size" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(selectedProduct?.sizes ?? []).map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  value={line.quantity}
+                  onChange={(e) => setLine({ ...line, quantity: e.target.value })}
+                  className="w-full sm:w-20"
+                />
+                <Button type="button" variant="outline" onClick={handleAddItem}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {items.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item, index) => (
+                      <TableRow key={`${item.id}:${item.size}`}>
+                        <TableCell>{item.name}</TableCell>
+                        <TableCell>{item.size || "—"}</TableCell>
+                        <TableCell>{item.quantity}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.price * item.quantity)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setItems(items.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            {/* Charges */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="orderShippingFee">Shipping Fee (RM)</Label>
+                <Input
+                  id="orderShippingFee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={shippingFee}
+                  onChange={(e) => setShippingFee(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="orderDiscount">Discount (RM)</Label>
+                <Input
+                  id="orderDiscount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="orderNotes">Notes</Label>
+              <Textarea id="orderNotes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <div className="flex items-center justify-between border-t pt-4">
+              <div className="text-sm">
+                <span className="text-muted-foreground">Subtotal {formatCurrency(subtotal)} · </span>
+                <span className="font-semibold">Total {formatCurrency(total)}</span>
+              </div>
+              <Button type="submit" disabled={isSubmitting || items.length === 0}>
+                {isSubmitting
+                  ? "Creating..."
+                  : paymentMethod === "gateway"
+                    ? "Create & Get Payment Link"
+                    : "Create Paid Order"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { CommentMention, OrderComment } from "@/lib/orderComments";
+import { OrderService } from "@/lib/orderService";
+import { UserService } from "@/lib/userService";
+import { AtSign, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface OrderCommentsProps {
+  orderId: string;
+}
+
+export function OrderComments({ orderId }: OrderCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<OrderComment[]>([]);
+  const [admins, setAdmins] = useState<CommentMention[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState("");
+  const [mentions, setMentions] = useState<CommentMention[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Bumped after posting to reload the thread
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchComments = async () => {
+      try {
+        const result = await OrderService.getOrderComments(orderId);
+        if (!cancelled) setComments(result);
+      } catch (error) {
+        console.error("Error fetching order comments:", error);
+        if (!cancelled) toast.error("Failed to load comments");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, refreshKey]);
+
+  // Start with an empty draft when switching orders
+  useEffect(() => {
+    setLoading(true);
+    setBody("");
+    setMentions([]);
+  }, [orderId]);
+
+  useEffect(() => {
+    UserService.getAdminUsers()
+      .then((users) =>
+        setAdmins(
+          users.map((admin) => ({
+            uid: admin.uid,
+            name: `${admin.firstName} ${admin.lastName}`.trim() || admin.email,
+          })),
+        ),
+      )
+      .catch((error) => console.error("Error fetching admins:", error));
+  }, []);
+
+  const handleMention = (uid: string) => {
+    const admin = admins.find((a) => a.uid === uid);
+    if (!admin) return;
+
+    setBody((prev) => `${prev}${prev && !prev.endsWith(" ") ? " " : ""}@${admin.name} `);
+    setMentions((prev) => (prev.some((m) => m.uid === uid) ? prev : [...prev, admin]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.addOrderComment(orderId, body, mentions);
+      setBody("");
+      setMentions([]);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add comment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-muted-foreground text-sm">Loading comments...</p>
+      ) : comments.length > 0 ? (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="rounded-md border p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{comment.authorName}</span>
+                <span className="text-muted-foreground text-xs">
+                  {comment.createdAt ? comment.createdAt.toDate().toLocaleString() : "N/A"}
+                </span>
+                {user && comment.mentionIds.includes(user.uid) && <Badge variant="secondary">Mentions you</Badge>}
+              </div>
+              <p className="mt-1 text-sm whitespace-pre-wrap">{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-muted-foreground text-sm">No comments yet</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Textarea
+          rows={3}
+          placeholder="Add an internal comment. Customers never see these."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <Select value="" onValueChange={handleMention} disabled={admins.length === 0}>
+            <SelectTrigger className="h-8 w-44">
+              <AtSign className="mr-1 h-4 w-4" />
+              <SelectValue placeholder="Mention admin" />
+            </SelectTrigger>
+            <SelectContent>
+              {admins
+                .filter((admin) => admin.uid !== user?.uid)
+                .map((admin) => (
+                  <SelectItem key={admin.uid} value={admin.uid}>
+                    {admin.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" disabled={isSubmitting || !body.trim()}>
+            <Send className="mr-2 h-4 w-4" />
+            {isSubmitting ? "Posting..." : "Post Comment"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
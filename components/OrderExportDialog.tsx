@@ -0,0 +1,165 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AdminService } from "@/lib/adminService";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_LAYOUT_LABELS,
+  ExportFormat,
+  ExportLayout,
+  ORDER_EXPORT_COLUMNS,
+} from "@/lib/orderExport";
+import { OrderQueryFilters } from "@/lib/orderFilters";
+import { Download } from "lucide-react";
+import { FormEvent, useState } from "react";
+import { toast } from "sonner";
+
+interface OrderExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: OrderQueryFilters;
+  // Export just these orders instead of everything matching the filters
+  orderIds?: string[];
+}
+
+export function OrderExportDialog({ open, onOpenChange, filters, orderIds }: OrderExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [layout, setLayout] = useState<ExportLayout>("orders");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const availableColumns = ORDER_EXPORT_COLUMNS.filter((column) => column.layouts.includes(layout));
+  const selectedCount = availableColumns.filter((column) => columns.includes(column.key)).length;
+
+  const toggleColumn = (key: string) => {
+    setColumns((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]));
+  };
+
+  const handleExport = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isExporting) return;
+
+    try {
+      setIsExporting(true);
+      const { file, fileName } = await AdminService.exportOrders({ format, layout, columns, filters, orderIds });
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success("Orders exported successfully");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error exporting orders:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export orders");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleExport} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Export Orders</DialogTitle>
+            <DialogDescription>
+              {orderIds
+                ? `Exports the ${orderIds.length} selected order${orderIds.length === 1 ? "" : "s"}.`
+                : "Exports every order matching the current filters, not just the loaded page."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="exportFormat">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger id="exportFormat" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exportLayout">Rows</Label>
+              <Select value={layout} onValueChange={(value) => setLayout(value as ExportLayout)}>
+                <SelectTrigger id="exportLayout" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_LAYOUT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setColumns(ORDER_EXPORT_COLUMNS.map((column) => column.key))}
+                >
+                  All
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}>
+                  Default
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+              {availableColumns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="accent-primary h-4 w-4"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isExporting || selectedCount === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
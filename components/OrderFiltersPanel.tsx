@@ -0,0 +1,114 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { filtersFromSearchParams, filtersToSearchParams, OrderQueryFilters } from "@/lib/orderFilters";
+import { X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface OrderFiltersPanelProps {
+  filters: OrderQueryFilters;
+  onApply: (filters: OrderQueryFilters) => void;
+}
+
+// Form values are kept as strings, in the same shape as the URL params
+type FilterDraft = Record<"payment" | "from" | "to" | "min" | "max" | "product" | "size" | "customer", string>;
+
+const toDraft = (filters: OrderQueryFilters): FilterDraft => {
+  const params = filtersToSearchParams(filters);
+  return {
+    payment: params.get("payment") ?? "all",
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    min: params.get("min") ?? "",
+    max: params.get("max") ?? "",
+    product: params.get("product") ?? "",
+    size: params.get("size") ?? "",
+    customer: params.get("customer") ?? "",
+  };
+};
+
+export function OrderFiltersPanel({ filters, onApply }: OrderFiltersPanelProps) {
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filters));
+
+  // Keep the form in sync when filters change from the URL (back/forward, shared links)
+  useEffect(() => {
+    setDraft(toDraft(filters));
+  }, [filters]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const params = new URLSearchParams();
+    Object.entries(draft).forEach(([key, value]) => {
+      if (value.trim() && value !== "all") params.set(key, value.trim());
+    });
+
+    onApply({ ...filtersFromSearchParams(params), fulfillmentStatus: filters.fulfillmentStatus });
+  };
+
+  const handleClear = () => {
+    onApply({ fulfillmentStatus: filters.fulfillmentStatus });
+  };
+
+  const update = (key: keyof FilterDraft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [key]: e.target.value });
+
+  return (
+    <form onSubmit={handleApply} className="mb-6 grid gap-4 rounded-md border p-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="space-y-2">
+        <Label htmlFor="filterPayment">Payment Status</Label>
+        <Select value={draft.payment} onValueChange={(value) => setDraft({ ...draft, payment: value })}>
+          <SelectTrigger id="filterPayment" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Payments</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="success">Success</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="expired">Expired</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filterFrom">Created From</Label>
+        <Input id="filterFrom" type="date" value={draft.from} onChange={update("from")} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filterTo">Created To</Label>
+        <Input id="filterTo" type="date" value={draft.to} onChange={update("to")} />
+      </div>
+      <div className="space-y-2">
+        <Label>Total Amount (RM)</Label>
+        <div className="flex items-center gap-2">
+          <Input type="number" min={0} step="0.01" placeholder="Min" value={draft.min} onChange={update("min")} />
+          <span className="text-muted-foreground">–</span>
+          <Input type="number" min={0} step="0.01" placeholder="Max" value={draft.max} onChange={update("max")} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filterProduct">Product</Label>
+        <Input id="filterProduct" placeholder="Name or product ID" value={draft.product} onChange={update("product")} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filterSize">Size</Label>
+        <Input id="filterSize" placeholder="e.g. UK 9" value={draft.size} onChange={update("size")} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filterCustomer">Customer Email / Phone</Label>
+        <Input id="filterCustomer" value={draft.customer} onChange={update("customer")} />
+      </div>
+      <div className="flex items-end gap-2">
+        <Button type="submit" className="flex-1">
+          Apply Filters
+        </Button>
+        <Button type="button" variant="outline" onClick={handleClear}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Product } from "@/data/products";
+import { calculateOrderEdit, getOrderEditBlocker, OrderItemInput } from "@/lib/orderEdits";
+import { Order, OrderService } from "@/lib/orderService";
+import { ProductAdminService } from "@/lib/productAdminService";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface OrderItemsEditorProps {
+  order: Order;
+  onUpdated: () => void | Promise<void>;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+// Product prices are stored as display strings, e.g. "RM529.00"
+const parsePrice = (price: string) => parseFloat(price.replace(/[^0-9.]/g, "")) || 0;
+
+export function OrderItemsEditor({ order, onUpdated }: OrderItemsEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [items, setItems] = useState<OrderItemInput[]>([]);
+  const [newProductId, setNewProductId] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const blocker = getOrderEditBlocker(order);
+  const balanceDue = order.balanceDue ?? 0;
+
+  let preview: ReturnType<typeof calculateOrderEdit> | null = null;
+  try {
+    preview = isEditing ? calculateOrderEdit(order, items) : null;
+  } catch {
+    preview = null;
+  }
+
+  const sizesFor = (productId: string) => products.find((product) => product.id === productId)?.sizes ?? [];
+
+  const startEditing = async () => {
+    setItems(order.items.map(({ id, name, price, quantity, size }) => ({ id, name, price, quantity, size })));
+    setReason("");
+    setIsEditing(true);
+
+    if (products.length === 0) {
+      try {
+        setProducts(await ProductAdminService.getProducts());
+      } catch (error) {
+        console.error("Error loading products:", error);
+        toast.error("Failed to load products");
+      }
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<OrderItemInput>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddProduct = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    if (!product) return;
+
+    setItems([
+      ...items,
+      {
+        id: product.id,
+        name: product.name,
+        price: parsePrice(product.price),
+        quantity: 1,
+        size: product.sizes?.[0] ?? "",
+      },
+    ]);
+    setNewProductId("");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order.id || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.updateOrderItems(order.id, items, reason);
+      setIsEditing(false);
+      await onUpdated();
+      toast.success("Order items updated");
+    } catch (error) {
+      console.error("Error updating order items:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update items");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!order.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.settleBalance(order.id);
+      await onUpdated();
+      toast.success("Balance marked as settled");
+    } catch (error) {
+      console.error("Error settling balance:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to settle balance");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {balanceDue !== 0 && (
+        <div className="flex items-center justify-between gap-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm">
+          <span>
+            {balanceDue > 0
+              ? `Customer owes ${formatCurrency(balanceDue)} after an item change`
+              : `Refund of ${formatCurrency(-balanceDue)} due to the customer after an item change`}
+          </span>
+          <Button size="sm" variant="outline" disabled={isSubmitting} onClick={handleSettle}>
+            Mark as Settled
+          </Button>
+        </div>
+      )}
+
+      {!isEditing ? (
+        blocker ? (
+          <p className="text-muted-foreground text-xs">{blocker}</p>
+        ) : (
+          <Button size="sm" variant="outline" onClick={startEditing}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit Items
+          </Button>
+        )
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3 rounded-md border p-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => {
+                const sizes = sizesFor(item.id);
+                return (
+                  <TableRow key={index}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell>
+                      {sizes.length > 0 ? (
+                        <Select value={item.size ?? ""} onValueChange={(size) => updateItem(index, { size })}>
+                          <SelectTrigger className="h-8 w-28">
+                            <SelectValue placeholder="Size" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {sizes.map((size) => (
+                              <SelectItem key={size} value={size}>
+                                {size}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        item.size || "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="h-8 w-20"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.price * item.quantity)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center gap-2">
+            <Select value={newProductId} onValueChange={handleAddProduct}>
+              <SelectTrigger className="h-8 w-full sm:w-80">
+                <Plus className="mr-1 h-4 w-4" />
+                <SelectValue placeholder="Add product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} — {product.price}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="editReason">Reason</Label>
+            <Input
+              id="editReason"
+              placeholder="e.g. Customer asked to swap to UK 9"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {preview && (
+            <div className="text-sm">
+              New total {formatCurrency(preview.totalAmount)} (was {formatCurrency(order.totalAmount)})
+              {preview.balanceDue > 0 && (
+                <span className="text-amber-700"> · customer will owe {formatCurrency(preview.balanceDue)}</span>
+              )}
+              {preview.balanceDue < 0 && (
+                <span className="text-amber-700"> · refund due {formatCurrency(-preview.balanceDue)}</span>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSubmitting || !preview || !reason.trim()}>
+              {isSubmitting ? "Saving..." : "Save Changes"}
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
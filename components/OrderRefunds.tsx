@@ -0,0 +1,168 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { getOrderItemKey, getRefundableAmount, getRefundedQuantities } from "@/lib/orderRefunds";
+import { Order, OrderService } from "@/lib/orderService";
+import { RotateCcw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface OrderRefundsProps {
+  order: Order;
+  onUpdated: () => void | Promise<void>;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+export function OrderRefunds({ order, onUpdated }: OrderRefundsProps) {
+  const [refundType, setRefundType] = useState<"full" | "partial">("full");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const refunds = order.refunds ?? [];
+  const refundable = getRefundableAmount(order);
+  const refundedQuantities = getRefundedQuantities(order);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order.id || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.issueRefund(order.id, {
+        type: refundType,
+        reason,
+        items: Object.entries(quantities).map(([itemKey, quantity]) => ({ itemKey, quantity })),
+      });
+      setQuantities({});
+      setReason("");
+      await onUpdated();
+      toast.success("Refund recorded");
+    } catch (error) {
+      console.error("Error issuing refund:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record refund");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {refunds.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {refunds.map((refund) => (
+              <TableRow key={refund.id}>
+                <TableCell>{refund.createdAt.toDate().toLocaleDateString()}</TableCell>
+                <TableCell className="text-xs">
+                  {refund.type === "full"
+                    ? "Full refund"
+                    : refund.items
+                        .map((item) => `${item.name}${item.size ? ` (${item.size})` : ""} x${item.quantity}`)
+                        .join(", ")}
+                </TableCell>
+                <TableCell className="text-xs">{refund.reason}</TableCell>
+                <TableCell className="text-xs">{refund.actorName}</TableCell>
+                <TableCell className="text-right">{formatCurrency(refund.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-muted-foreground text-sm">No refunds issued</p>
+      )}
+
+      {refundable > 0 && (
+        <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <div className="space-y-2">
+              <Label htmlFor="refundType">Refund Type</Label>
+              <Select value={refundType} onValueChange={(value) => setRefundType(value as "full" | "partial")}>
+                <SelectTrigger id="refundType" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full refund</SelectItem>
+                  <SelectItem value="partial">Partial (per item)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-muted-foreground text-sm">Refundable: {formatCurrency(refundable)}</p>
+          </div>
+
+          {refundType === "partial" && (
+            <div className="space-y-2">
+              {order.items.map((item) => {
+                const key = getOrderItemKey(item);
+                const remaining = item.quantity - (refundedQuantities[key] || 0);
+                return (
+                  <div key={key} className="flex items-center justify-between gap-4 text-sm">
+                    <span>
+                      {item.name}
+                      {item.size && ` (${item.size})`} — {formatCurrency(item.price)} each
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      disabled={remaining === 0}
+                      value={quantities[key] ?? 0}
+                      onChange={(e) =>
+                        setQuantities({
+                          ...quantities,
+                          [key]: Math.min(remaining, Math.max(0, parseInt(e.target.value) || 0)),
+                        })
+                      }
+                      className="h-8 w-20"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refundReason">Reason</Label>
+            <Textarea
+              id="refundReason"
+              rows={2}
+              placeholder="e.g. Size out of stock, customer cancelled"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <p className="text-muted-foreground text-xs">
+            ToyyibPay has no refund API. Transfer the money to the customer manually, then record it here.
+          </p>
+
+          <Button type="submit" size="sm" variant="destructive" disabled={isSubmitting || !reason.trim()}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {isSubmitting ? "Recording..." : "Record Refund"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { getOrderItemKey } from "@/lib/orderRefunds";
+import {
+  describeReturnItems,
+  getReturnableQuantities,
+  getReturnBlocker,
+  RETURN_STATUS_LABELS,
+  ReturnRequest,
+} from "@/lib/orderReturns";
+import { Order } from "@/lib/orderService";
+import { ReturnService } from "@/lib/returnService";
+import { PackageX } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface OrderReturnsProps {
+  order: Order;
+  onUpdated: () => void | Promise<void>;
+}
+
+export function OrderReturns({ order, onUpdated }: OrderReturnsProps) {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const blocker = getReturnBlocker(order);
+  const returnable = getReturnableQuantities(order);
+  const hasReturnable = Object.values(returnable).some((quantity) => quantity > 0);
+
+  // Reload whenever the order is refreshed, e.g. after opening a return
+  useEffect(() => {
+    if (!order.id) return;
+    let cancelled = false;
+
+    ReturnService.getReturnsForOrder(order.id)
+      .then((result) => {
+        if (!cancelled) setReturns(result);
+      })
+      .catch((error) => console.error("Error fetching order returns:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [order]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order.id || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      const { returnNumber } = await ReturnService.createReturn(order.id, {
+        items: Object.entries(quantities).map(([itemKey, quantity]) => ({ itemKey, quantity })),
+        reason,
+      });
+      setQuantities({});
+      setReason("");
+      await onUpdated();
+      toast.success(`Return ${returnNumber} opened`);
+    } catch (error) {
+      console.error("Error opening return:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open return");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {returns.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Return</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.map((request) => (
+              <TableRow key={request.id}>
+                <TableCell>
+                  <Link href={`/returns?return=${request.id}`} className="text-primary font-mono text-xs underline">
+                    {request.returnNumber}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-xs">{describeReturnItems(request.items)}</TableCell>
+                <TableCell className="text-xs">{request.reason}</TableCell>
+                <TableCell>
+                  <Badge variant={request.status === "rejected" ? "destructive" : "secondary"}>
+                    {RETURN_STATUS_LABELS[request.status]}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-muted-foreground text-sm">No returns opened</p>
+      )}
+
+      {blocker ? (
+        <p className="text-muted-foreground text-xs">{blocker}</p>
+      ) : (
+        hasReturnable && (
+          <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4">
+            <div className="space-y-2">
+              {order.items.map((item) => {
+                const key = getOrderItemKey(item);
+                const remaining = returnable[key] ?? 0;
+                return (
+                  <div key={key} className="flex items-center justify-between gap-4 text-sm">
+                    <span>
+                      {item.name}
+                      {item.size && ` (${item.size})`}
+                      <span className="text-muted-foreground"> — {remaining} returnable</span>
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      disabled={remaining === 0}
+                      value={quantities[key] ?? 0}
+                      onChange={(e) =>
+                        setQuantities({
+                          ...quantities,
+                          [key]: Math.min(remaining, Math.max(0, parseInt(e.target.value) || 0)),
+                        })
+                      }
+                      className="h-8 w-20"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="returnReason">Reason</Label>
+              <Textarea
+                id="returnReason"
+                rows={2}
+                placeholder="e.g. Too small, wants UK 10 instead"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              size="sm"
+              variant="outline"
+              disabled={isSubmitting || !reason.trim() || !Object.values(quantities).some((quantity) => quantity > 0)}
+            >
+              <PackageX className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Opening..." : "Open Return"}
+            </Button>
+          </form>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { OrderRisk } from "@/lib/orderRisk";
+
+interface OrderRiskBadgeProps {
+  risk?: OrderRisk;
+}
+
+const getRiskVariant = (risk: OrderRisk) => {
+  switch (risk.level) {
+    case "high":
+      return "destructive" as const;
+    case "medium":
+      return "secondary" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+export function OrderRiskBadge({ risk }: OrderRiskBadgeProps) {
+  if (!risk) {
+    return <span className="text-muted-foreground text-xs">—</span>;
+  }
+
+  const badge = <Badge variant={getRiskVariant(risk)}>Risk {risk.score}</Badge>;
+  if (risk.reasons.length === 0) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span>{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <ul className="space-y-1">
+          {risk.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { OrderRiskBadge } from "@/components/OrderRiskBadge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AdminService } from "@/lib/adminService";
+import { RISK_LEVEL_LABELS } from "@/lib/orderRisk";
+import { getFulfillmentStatus, Order, OrderService } from "@/lib/orderService";
+import { PauseCircle, PlayCircle, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface OrderRiskPanelProps {
+  order: Order;
+  onUpdated: () => void | Promise<void>;
+}
+
+export function OrderRiskPanel({ order, onUpdated }: OrderRiskPanelProps) {
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isHeld = order.holdStatus === "on_hold";
+  const canHold = ["unfulfilled", "processing", "packed"].includes(getFulfillmentStatus(order));
+
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    if (!order.id || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await action();
+      setNote("");
+      await onUpdated();
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Error updating order risk:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update order");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <OrderRiskBadge risk={order.risk} />
+        {order.risk ? (
+          <span className="text-muted-foreground text-xs">
+            {RISK_LEVEL_LABELS[order.risk.level]} · assessed {order.risk.assessedAt.toDate().toLocaleString()}
+          </span>
+        ) : (
+          <span className="text-muted-foreground text-xs">Not assessed yet</span>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isSubmitting}
+          onClick={() => run(() => AdminService.assessOrderRisk(order.id!), "Risk re-assessed")}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Re-assess
+        </Button>
+      </div>
+
+      {order.risk && order.risk.reasons.length > 0 && (
+        <ul className="text-muted-foreground list-inside list-disc text-sm">
+          {order.risk.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      {isHeld && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm">
+          <span className="font-medium">On hold:</span> {order.holdReason}. Fulfillment is blocked until the hold is
+          released.
+        </div>
+      )}
+
+      {(isHeld || canHold) && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder={isHeld ? "Review note, e.g. Called customer, confirmed order" : "Reason for the hold"}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="h-8"
+          />
+          {isHeld ? (
+            <Button
+              size="sm"
+              disabled={isSubmitting || !note.trim()}
+              onClick={() => run(() => OrderService.releaseOrderHold(order.id!, note), "Hold released")}
+            >
+              <PlayCircle className="mr-2 h-4 w-4" />
+              Release Hold
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSubmitting || !note.trim()}
+              onClick={() => run(() => OrderService.placeOrderHold(order.id!, note), "Order placed on hold")}
+            >
+              <PauseCircle className="mr-2 h-4 w-4" />
+              Place on Hold
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
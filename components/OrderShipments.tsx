@@ -0,0 +1,222 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { COURIERS, getFulfillmentStatus, Order, OrderService } from "@/lib/orderService";
+import { CheckCircle, Plus, Trash2, Truck } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface OrderShipmentsProps {
+  order: Order;
+  onUpdated: () => void | Promise<void>;
+}
+
+const emptyForm = {
+  courier: "",
+  trackingNumber: "",
+  shippedAt: "",
+  notes: "",
+};
+
+export function OrderShipments({ order, onUpdated }: OrderShipmentsProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [proofUrls, setProofUrls] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const shipments = order.shipments ?? [];
+  const canShip = order.paymentStatus === "success" && getFulfillmentStatus(order) !== "cancelled";
+
+  const handleAddShipment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order.id || isSubmitting) return;
+
+    if (!form.courier || !form.trackingNumber.trim()) {
+      toast.error("Courier and tracking number are required");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.addShipment(order.id, {
+        courier: form.courier,
+        trackingNumber: form.trackingNumber.trim(),
+        shippedAt: form.shippedAt ? new Date(form.shippedAt) : undefined,
+        notes: form.notes.trim() || undefined,
+      });
+      setForm(emptyForm);
+      await onUpdated();
+      toast.success("Shipment recorded");
+    } catch (error) {
+      console.error("Error adding shipment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record shipment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMarkDelivered = async (shipmentId: string) => {
+    if (!order.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.markShipmentDelivered(order.id, shipmentId, proofUrls[shipmentId]?.trim() || undefined);
+      await onUpdated();
+      toast.success("Shipment marked as delivered");
+    } catch (error) {
+      console.error("Error marking shipment delivered:", error);
+      toast.error("Failed to update shipment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemoveShipment = async (shipmentId: string) => {
+    if (!order.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await OrderService.removeShipment(order.id, shipmentId);
+      await onUpdated();
+      toast.success("Shipment removed");
+    } catch (error) {
+      console.error("Error removing shipment:", error);
+      toast.error("Failed to remove shipment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {shipments.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Courier</TableHead>
+              <TableHead>Tracking No.</TableHead>
+              <TableHead>Shipped</TableHead>
+              <TableHead>Delivery</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shipments.map((shipment) => (
+              <TableRow key={shipment.id}>
+                <TableCell>{shipment.courier}</TableCell>
+                <TableCell className="font-mono text-xs">{shipment.trackingNumber}</TableCell>
+                <TableCell>{shipment.shippedAt.toDate().toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {shipment.deliveredAt ? (
+                    <div className="space-y-1">
+                      <Badge>Delivered {shipment.deliveredAt.toDate().toLocaleDateString()}</Badge>
+                      {shipment.deliveryProofUrl && (
+                        <a
+                          href={shipment.deliveryProofUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary block text-xs underline"
+                        >
+                          View proof
+                        </a>
+                      )}
+                    </div>
+                  ) : (
+                    <Input
+                      placeholder="Proof of delivery URL (optional)"
+                      value={proofUrls[shipment.id] ?? ""}
+                      onChange={(e) => setProofUrls({ ...proofUrls, [shipment.id]: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    {!shipment.deliveredAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSubmitting}
+                        onClick={() => handleMarkDelivered(shipment.id)}
+                        title="Mark as delivered"
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() => handleRemoveShipment(shipment.id)}
+                      title="Remove shipment"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-muted-foreground text-sm">No shipments recorded yet</p>
+      )}
+
+      {canShip && (
+        <form onSubmit={handleAddShipment} className="grid gap-3 rounded-md border p-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="courier">Courier</Label>
+            <Select value={form.courier} onValueChange={(value) => setForm({ ...form, courier: value })}>
+              <SelectTrigger id="courier">
+                <SelectValue placeholder="Select courier" />
+              </SelectTrigger>
+              <SelectContent>
+                {COURIERS.map((courier) => (
+                  <SelectItem key={courier} value={courier}>
+                    {courier}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trackingNumber">Tracking Number</Label>
+            <Input
+              id="trackingNumber"
+              value={form.trackingNumber}
+              onChange={(e) => setForm({ ...form, trackingNumber: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shippedAt">Shipped Date</Label>
+            <Input
+              id="shippedAt"
+              type="date"
+              value={form.shippedAt}
+              onChange={(e) => setForm({ ...form, shippedAt: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="shipmentNotes">Notes</Label>
+            <Input
+              id="shipmentNotes"
+              placeholder="e.g. Parcel 2 of 2"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <Button type="submit" size="sm" disabled={isSubmitting}>
+              {shipments.length > 0 ? <Plus className="mr-2 h-4 w-4" /> : <Truck className="mr-2 h-4 w-4" />}
+              {shipments.length > 0 ? "Add Another Parcel" : "Record Shipment"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { ORDER_CHANGE_SOURCE_LABELS, OrderHistoryEntry, TRACKED_ORDER_FIELD_LABELS } from "@/lib/orderHistory";
+import { OrderService } from "@/lib/orderService";
+import { useEffect, useState } from "react";
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Bump to reload the timeline after the order changes
+  refreshKey?: unknown;
+}
+
+export function OrderTimeline({ orderId, refreshKey }: OrderTimelineProps) {
+  const [entries, setEntries] = useState<OrderHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const history = await OrderService.getOrderHistory(orderId);
+        if (!cancelled) {
+          setEntries(history);
+          setError(null);
+        }
+      } catch (error) {
+        console.error("Error fetching order history:", error);
+        if (!cancelled) setError("Failed to load order history");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, refreshKey]);
+
+  if (loading) {
+    return <p className="text-muted-foreground text-sm">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground text-sm">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="border-border relative ml-2 space-y-4 border-l pl-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="relative">
+          <span className="bg-primary absolute top-1.5 -left-[21px] h-2.5 w-2.5 rounded-full" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{entry.actorName}</span>
+            <Badge variant="outline">{ORDER_CHANGE_SOURCE_LABELS[entry.source] ?? entry.source}</Badge>
+            <span className="text-muted-foreground text-xs">
+              {entry.createdAt ? entry.createdAt.toDate().toLocaleString() : "N/A"}
+            </span>
+          </div>
+          {entry.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-sm">
+              {entry.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="text-muted-foreground">{TRACKED_ORDER_FIELD_LABELS[change.field]}:</span>{" "}
+                  {change.from ?? "—"} → <span className="font-medium">{change.to ?? "—"}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {entry.note && <p className="text-muted-foreground mt-1 text-sm">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AdminService } from "@/lib/adminService";
+import { useEffect, useState } from "react";
+
+type GatewayStatus = Awaited<ReturnType<typeof AdminService.getPaymentGatewayMode>> | { error: string };
+
+// The mode can't change without a restart, so one request is shared by every page
+let gatewayRequest: Promise<GatewayStatus> | null = null;
+
+const loadGatewayStatus = () => {
+  if (!gatewayRequest) {
+    gatewayRequest = AdminService.getPaymentGatewayMode().catch((error) => {
+      gatewayRequest = null;
+      return { error: error instanceof Error ? error.message : "Failed to get payment gateway configuration" };
+    });
+  }
+  return gatewayRequest;
+};
+
+export function PaymentModeBadge() {
+  const [status, setStatus] = useState<GatewayStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadGatewayStatus().then((result) => {
+      if (!cancelled) setStatus(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!status) return null;
+
+  let badge;
+  let description;
+  if ("error" in status) {
+    badge = <Badge variant="destructive">Payments misconfigured</Badge>;
+    description = status.error;
+  } else if (!status.live) {
+    badge = (
+      <Badge className="border-amber-300 bg-amber-50 text-amber-700">
+        {status.providerLabel} {status.modeLabel}
+      </Badge>
+    );
+    description = `Bills are created on ${status.host}. Payments are not real, so don't take customer orders.`;
+  } else {
+    badge = (
+      <Badge variant="outline">
+        {status.providerLabel} {status.modeLabel}
+      </Badge>
+    );
+    description = `Bills are created on ${status.host} and take real payments.`;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span>{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">{description}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Product } from "@/data/products";
+import {
+  ExchangeItem,
+  RETURN_CONDITION_LABELS,
+  RETURN_RESOLUTION_LABELS,
+  ReturnCondition,
+  ReturnRequest,
+  ReturnResolution,
+} from "@/lib/orderReturns";
+import { ProductAdminService } from "@/lib/productAdminService";
+import { ReturnService } from "@/lib/returnService";
+import { Check, PackageCheck, Plus, Search, Trash2, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface ReturnActionsProps {
+  request: ReturnRequest;
+  onUpdated: () => void | Promise<void>;
+}
+
+export function ReturnActions({ request, onUpdated }: ReturnActionsProps) {
+  const [note, setNote] = useState("");
+  const [condition, setCondition] = useState<ReturnCondition>("resellable");
+  const [resolution, setResolution] = useState<ReturnResolution>("refund");
+  const [exchangeItems, setExchangeItems] = useState<ExchangeItem[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from a clean form whenever a different return (or status) is shown
+  useEffect(() => {
+    setNote("");
+    setCondition("resellable");
+    setResolution(request.condition === "damaged" ? "refund" : "restock");
+    setExchangeItems(
+      request.items.map((item) => ({
+        productId: item.productId,
+        name: item.name,
+        size: item.size,
+        quantity: item.quantity,
+      })),
+    );
+  }, [request]);
+
+  useEffect(() => {
+    if (resolution !== "exchange" || products.length > 0) return;
+
+    ProductAdminService.getProducts()
+      .then(setProducts)
+      .catch((error) => {
+        console.error("Error loading products:", error);
+        toast.error("Failed to load products");
+      });
+  }, [resolution, products.length]);
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    if (!request.id || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await action();
+      await onUpdated();
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Error updating return:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update return");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateExchangeItem = (index: number, changes: Partial<ExchangeItem>) => {
+    setExchangeItems(exchangeItems.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddExchangeProduct = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    if (!product) return;
+
+    setExchangeItems([
+      ...exchangeItems,
+      { productId: product.id, name: product.name, size: product.sizes?.[0] ?? "", quantity: 1 },
+    ]);
+  };
+
+  const noteField = (placeholder: string) => (
+    <div className="space-y-2">
+      <Label htmlFor="returnNote">Note</Label>
+      <Textarea
+        id="returnNote"
+        rows={2}
+        placeholder={placeholder}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+      />
+    </div>
+  );
+
+  if (request.status === "requested" || request.status === "approved") {
+    return (
+      <div className="space-y-3 rounded-md border p-4">
+        {noteField(
+          request.status === "requested"
+            ? "Optional when approving, required when rejecting"
+            : "e.g. Received via J&T, box intact",
+        )}
+        <div className="flex gap-2">
+          {request.status === "requested" ? (
+            <Button
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => run(() => ReturnService.approveReturn(request.id!, note), "Return approved")}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              disabled={isSubmitting}
+              onClick={() => run(() => ReturnService.markReceived(request.id!, note), "Return marked as received")}
+            >
+              <PackageCheck className="mr-2 h-4 w-4" />
+              Mark Received
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={isSubmitting || !note.trim()}
+            onClick={() => run(() => ReturnService.rejectReturn(request.id!, note), "Return rejected")}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Reject
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (request.status === "received") {
+    return (
+      <div className="space-y-3 rounded-md border p-4">
+        <div className="space-y-2">
+          <Label htmlFor="returnCondition">Condition</Label>
+          <Select value={condition} onValueChange={(value) => setCondition(value as ReturnCondition)}>
+            <SelectTrigger id="returnCondition" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RETURN_CONDITION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {noteField("e.g. Worn once, sole scuffed")}
+        <Button
+          size="sm"
+          disabled={isSubmitting}
+          onClick={() => run(() => ReturnService.recordInspection(request.id!, condition, note), "Inspection recorded")}
+        >
+          <Search className="mr-2 h-4 w-4" />
+          Record Inspection
+        </Button>
+      </div>
+    );
+  }
+
+  if (request.status === "inspected") {
+    return (
+      <div className="space-y-3 rounded-md border p-4">
+        <div className="space-y-2">
+          <Label htmlFor="returnResolution">Resolution</Label>
+          <Select value={resolution} onValueChange={(value) => setResolution(value as ReturnResolution)}>
+            <SelectTrigger id="returnResolution" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RETURN_RESOLUTION_LABELS).map(([value, label]) => (
+                <SelectItem
+                  key={value}
+                  value={value}
+                  disabled={value === "restock" && request.condition !== "resellable"}
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-muted-foreground text-xs">
+            {request.condition === "resellable"
+              ? "The returned items go back into stock."
+              : "Damaged items are not restocked."}
+            {resolution === "refund" && " The refund is recorded on the order; pay it out manually."}
+          </p>
+        </div>
+
+        {resolution === "exchange" && (
+          <div className="space-y-2">
+            <Label>Replacement Items</Label>
+            {exchangeItems.map((item, index) => {
+              const sizes = products.find((product) => product.id === item.productId)?.sizes ?? [];
+              return (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1">{item.name}</span>
+                  {sizes.length > 0 && (
+                    <Select value={item.size} onValueChange={(size) => updateExchangeItem(index, { size })}>
+                      <SelectTrigger className="h-8 w-28">
+                        <SelectValue placeholder="Size" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sizes.map((size) => (
+                          <SelectItem key={size} value={size}>
+                            {size}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Input
+                    type="number"
+                    min={1}
+                    value={item.quantity}
+                    onChange={(e) =>
+                      updateExchangeItem(index, { quantity: Math.max(0, parseInt(e.target.value) || 0) })
+                    }
+                    className="h-8 w-20"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExchangeItems(exchangeItems.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Select value="" onValueChange={handleAddExchangeProduct}>
+              <SelectTrigger className="h-8 w-full sm:w-80">
+                <Plus className="mr-1 h-4 w-4" />
+                <SelectValue placeholder="Add product" />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {noteField("Optional")}
+        <Button
+          size="sm"
+          disabled={isSubmitting}
+          onClick={() =>
+            run(() => ReturnService.resolveReturn(request.id!, { resolution, exchangeItems, note }), "Return completed")
+          }
+        >
+          <Check className="mr-2 h-4 w-4" />
+          Complete Return
+        </Button>
+      </div>
+    );
+  }
+
+  return null;
+}
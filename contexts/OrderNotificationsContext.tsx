@@ -0,0 +1,128 @@
+"use client";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { AdminService } from "@/lib/adminService";
+import { Order } from "@/lib/orderService";
+import { usePathname, useRouter } from "next/navigation";
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+// How many of the most recently updated orders are watched for new payments
+const WATCHED_ORDERS = 20;
+
+interface OrderNotificationsContextType {
+  unreadCount: number; // New paid orders since the orders page was last open
+  lastActivityAt: number | null; // When an order was last created or updated, for refreshing aggregates
+}
+
+const OrderNotificationsContext = createContext<OrderNotificationsContextType | undefined>(undefined);
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+/**
+ * Whether a paid order is a payment made since we started watching: it was paid after `since`, or
+ * we saw it unpaid earlier. Any other update (a note, a shipment, an invoice number) only moves an
+ * order that was already paid into the watched window.
+ */
+const isNewPayment = (order: Order, since: number, seenUnpaid: boolean) =>
+  order.paymentStatus === "success" && (seenUnpaid || (!!order.paidAt && order.paidAt.toMillis() > since));
+
+export function OrderNotificationsProvider({ children }: { children: ReactNode }) {
+  const { user, isAdmin } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [lastActivityAt, setLastActivityAt] = useState<number | null>(null);
+
+  // Orders known to be paid, so each payment is announced once, and orders seen unpaid
+  const paidOrderIds = useRef(new Set<string>());
+  const unpaidOrderIds = useRef(new Set<string>());
+
+  // Keep the latest values for the listener without restarting it on every navigation
+  const onOrdersPage = pathname === "/orders";
+  const onOrdersPageRef = useRef(onOrdersPage);
+  onOrdersPageRef.current = onOrdersPage;
+  const routerRef = useRef(router);
+  routerRef.current = router;
+
+  useEffect(() => {
+    if (onOrdersPage) setUnreadCount(0);
+  }, [onOrdersPage]);
+
+  useEffect(() => {
+    if (!user || !isAdmin) return;
+
+    const knownPaid = paidOrderIds.current;
+    const knownUnpaid = unpaidOrderIds.current;
+    const startedAt = Date.now();
+    const unsubscribe = AdminService.subscribeToOrderActivity(
+      WATCHED_ORDERS,
+      (changedOrders, initial) => {
+        const newlyPaid = changedOrders.filter((order) => {
+          if (order.paymentStatus !== "success") {
+            // A payment reversed by reconciliation is announced again if it's paid later
+            knownPaid.delete(order.id!);
+            knownUnpaid.add(order.id!);
+            return false;
+          }
+          if (knownPaid.has(order.id!)) return false;
+          knownPaid.add(order.id!);
+          return !initial && isNewPayment(order, startedAt, knownUnpaid.delete(order.id!));
+        });
+
+        if (initial || changedOrders.length === 0) return;
+        setLastActivityAt(Date.now());
+
+        newlyPaid.forEach((order) => {
+          const action = { label: "View", onClick: () => routerRef.current.push(`/orders?order=${order.id}`) };
+
+          // A payment that doesn't match the total is held, so it needs someone to look at it
+          if (order.amountMismatch) {
+            toast.error(`Payment amount mismatch on order ${order.orderId}`, {
+              description: `Paid ${formatCurrency(order.amountMismatch.paid)}, expected ${formatCurrency(order.amountMismatch.expected)}. The order is on hold.`,
+              action,
+              duration: Infinity,
+            });
+            return;
+          }
+
+          toast.success(`New paid order ${order.orderId}`, {
+            description: `${order.customerName} · ${formatCurrency(order.totalAmount)}`,
+            action,
+            duration: 10000,
+          });
+        });
+        if (!onOrdersPageRef.current && newlyPaid.length > 0) {
+          setUnreadCount((count) => count + newlyPaid.length);
+        }
+      },
+      (error) => console.error("Error watching for new orders:", error),
+    );
+
+    return () => {
+      unsubscribe();
+      knownPaid.clear();
+      knownUnpaid.clear();
+    };
+  }, [user, isAdmin]);
+
+  return (
+    <OrderNotificationsContext.Provider value={{ unreadCount, lastActivityAt }}>
+      {children}
+    </OrderNotificationsContext.Provider>
+  );
+}
+
+export function useOrderNotifications() {
+  const context = useContext(OrderNotificationsContext);
+  if (context === undefined) {
+    throw new Error("useOrderNotifications must be used within an OrderNotificationsProvider");
+  }
+  return context;
+}
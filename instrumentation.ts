@@ -0,0 +1,12 @@
+/**
+ * Runs once when the server starts. Validates the payment gateway configuration so a missing
+ * key or a half-switched sandbox/production setup stops the deployment instead of failing orders.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getActivePaymentProvider } = await import("@/lib/paymentGateway");
+    const provider = getActivePaymentProvider();
+    const { modeLabel, host } = provider.getEnvironment();
+    console.log(`Payments running through ${provider.id} (${modeLabel}) against ${host}`);
+  }
+}
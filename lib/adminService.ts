@@ -1,10 +1,43 @@
 import { auth, db } from "@/lib/firebase";
+import { roundCurrency } from "@/lib/orderConstants";
+import { ExportFormat, ExportLayout } from "@/lib/orderExport";
+import {
+  filtersToSearchParams,
+  hasInMemoryFilters,
+  matchesInMemoryFilters,
+  OrderQueryFilters,
+} from "@/lib/orderFilters";
 import { Order } from "@/lib/orderService";
+import { getNetRevenue, getOrderItemKey, getRefundedQuantities } from "@/lib/orderRefunds";
+import { RECONCILIATION_RUNS_COLLECTION, ReconciliationRun } from "@/lib/paymentReconciliation";
+import { PaymentEnvironment, PaymentProviderId } from "@/lib/paymentProvider";
 import { onAuthStateChanged, User } from "firebase/auth";
-import { collection, getDocs, limit, orderBy, query, where } from "firebase/firestore";
+import {
+  collection,
+  DocumentData,
+  getAggregateFromServer,
+  getCountFromServer,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  sum,
+  Timestamp,
+  Unsubscribe,
+  where,
+} from "firebase/firestore";
+
+// Orders read when filtering by amount, items or partial customer details, which are matched in
+// memory; a date range or status filter narrows the scan
+export const MAX_FILTER_SCAN = 2000;
 
 export interface AdminStats {
-  totalRevenue: number;
+  totalRevenue: number; // Net of refunds
+  totalRefunded: number;
   totalOrders: number;
   totalProducts: number;
   totalUsers: number;
@@ -33,6 +66,26 @@ export interface ChartDataPoint {
 
 export type ChartPeriod = "day" | "month";
 
+export type OrderCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface OrdersPage {
+  orders: Order[];
+  totalCount: number;
+  // Pass as `after` to fetch the following page
+  lastCursor: OrderCursor | null;
+  hasMore: boolean;
+  // Set when filters Firestore can't apply matched against only the newest MAX_FILTER_SCAN orders
+  scanLimited?: boolean;
+}
+
+export interface OrderSummary {
+  totalOrders: number;
+  pendingPayment: number;
+  toFulfill: number;
+  delivered: number;
+  netRevenue: number;
+}
+
 export class AdminService {
   /**
    * Internal helper to safely obtain the currently authenticated user.
@@ -59,6 +112,36 @@ export class AdminService {
       });
     });
   }
+  /**
+   * Start a Firestore listener once the user is authenticated. The returned function stops it,
+   * including when it is called before the listener has started.
+   */
+  private static listen(start: () => Unsubscribe, onError: (error: Error) => void): Unsubscribe {
+    let unsubscribe: Unsubscribe | null = null;
+    let stopped = false;
+
+    this.requireUser()
+      .then(() => {
+        if (!stopped) unsubscribe = start();
+      })
+      .catch(onError);
+
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+    };
+  }
+
+  private static toOrdersError(error: Error): Error {
+    console.error("Error listening to orders:", error);
+    if (error.message.includes("Missing or insufficient permissions")) {
+      return new Error(
+        "Firestore permissions denied. Please update your Firebase security rules to allow admin access to orders collection.",
+      );
+    }
+    return error;
+  }
+
   /**
    * Get admin dashboard statistics - prioritizing real Firestore data
    */
@@ -78,20 +161,22 @@ export class AdminService {
       const ordersSnapshot = await getDocs(ordersCollection);
 
       let totalRevenue = 0;
+      let totalRefunded = 0;
       let currentMonthRevenue = 0;
       let lastMonthRevenue = 0;
       let currentMonthOrders = 0;
       let lastMonthOrders = 0;
       const totalOrders = ordersSnapshot.size;
 
-      // Calculate revenue from successful orders
+      // Calculate revenue from successful orders, net of refunds
       ordersSnapshot.forEach((doc) => {
         const order = doc.data() as Order;
         if (order.paymentStatus === "success") {
           const orderDate = order.createdAt.toDate();
-          const orderAmount = order.totalAmount || 0;
+          const orderAmount = getNetRevenue(order);
 
           totalRevenue += orderAmount;
+          totalRefunded += order.refundedAmount || 0;
 
           // Check if order is in current month
           if (orderDate >= startOfCurrentMonth) {
@@ -133,6 +218,7 @@ export class AdminService {
 
       return {
         totalRevenue,
+        totalRefunded: roundCurrency(totalRefunded),
         totalOrders,
         totalProducts,
         totalUsers,
@@ -183,6 +269,405 @@ export class AdminService {
     }
   }
 
+  /**
+   * Translate the server-side order filters into Firestore constraints. Equality filters combined with the
+   * createdAt range need composite indexes on (field, createdAt desc).
+   */
+  private static buildOrderConstraints(filters: OrderQueryFilters = {}): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+
+    if (filters.fulfillmentStatus === "awaiting_shipment") {
+      // Approximation of isAwaitingShipment(): recording a shipment moves packed orders to shipped
+      constraints.push(where("paymentStatus", "==", "success"));
+      constraints.push(where("fulfillmentStatus", "in", ["unfulfilled", "processing", "packed"]));
+    } else if (filters.fulfillmentStatus) {
+      constraints.push(where("fulfillmentStatus", "==", filters.fulfillmentStatus));
+    }
+
+    if (filters.paymentStatus) {
+      constraints.push(where("paymentStatus", "==", filters.paymentStatus));
+    }
+
+    if (filters.dateFrom) {
+      constraints.push(where("createdAt", ">=", Timestamp.fromDate(filters.dateFrom)));
+    }
+
+    if (filters.dateTo) {
+      constraints.push(where("createdAt", "<=", Timestamp.fromDate(filters.dateTo)));
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Page through the scanned orders that match the in-memory filters
+   */
+  private static pageInMemory(
+    scannedDocs: QueryDocumentSnapshot<DocumentData>[],
+    filters: OrderQueryFilters,
+    pageSize: number,
+    after?: OrderCursor | null,
+  ): OrdersPage {
+    const matchingDocs = scannedDocs.filter((doc) =>
+      matchesInMemoryFilters({ ...(doc.data() as Order), id: doc.id }, filters),
+    );
+    const startIndex = after ? matchingDocs.findIndex((doc) => doc.id === after.id) + 1 : 0;
+    const docs = matchingDocs.slice(startIndex, startIndex + pageSize);
+
+    return {
+      orders: docs.map((doc) => ({ ...(doc.data() as Order), id: doc.id })),
+      totalCount: matchingDocs.length,
+      lastCursor: docs.length > 0 ? docs[docs.length - 1] : null,
+      hasMore: startIndex + pageSize < matchingDocs.length,
+      scanLimited: scannedDocs.length >= MAX_FILTER_SCAN,
+    };
+  }
+
+  /**
+   * Get one page of orders (newest first) using Firestore cursors, with the total matching count
+   */
+  static async getOrdersPage(
+    options: { filters?: OrderQueryFilters; pageSize?: number; after?: OrderCursor | null } = {},
+  ): Promise<OrdersPage> {
+    const { filters, pageSize = 10, after } = options;
+
+    try {
+      await this.requireUser();
+
+      const ordersCollection = collection(db, "orders");
+      const constraints = this.buildOrderConstraints(filters);
+
+      if (filters && hasInMemoryFilters(filters)) {
+        // Firestore can't match amounts, items or partial customer details alongside the date ordering,
+        // so narrow with the server-side filters and page through the matches in memory
+        const snapshot = await getDocs(
+          query(ordersCollection, ...constraints, orderBy("createdAt", "desc"), limit(MAX_FILTER_SCAN)),
+        );
+        return this.pageInMemory(snapshot.docs, filters, pageSize, after);
+      }
+
+      const pageQuery = query(
+        ordersCollection,
+        ...constraints,
+        orderBy("createdAt", "desc"),
+        ...(after ? [startAfter(after)] : []),
+        limit(pageSize + 1), // One extra document tells us whether another page exists
+      );
+
+      const [querySnapshot, countSnapshot] = await Promise.all([
+        getDocs(pageQuery),
+        getCountFromServer(query(ordersCollection, ...constraints)),
+      ]);
+
+      const docs = querySnapshot.docs.slice(0, pageSize);
+      const orders = docs.map((doc) => ({ ...(doc.data() as Order), id: doc.id }));
+
+      return {
+        orders,
+        totalCount: countSnapshot.data().count,
+        lastCursor: docs.length > 0 ? docs[docs.length - 1] : null,
+        hasMore: querySnapshot.docs.length > pageSize,
+      };
+    } catch (error) {
+      console.error("Error fetching orders page:", error);
+      if (error instanceof Error && error.message.includes("Missing or insufficient permissions")) {
+        throw new Error(
+          "Firestore permissions denied. Please update your Firebase security rules to allow admin access to orders collection.",
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Live version of getRecentOrders: calls `onChange` with the latest orders now and whenever they change
+   */
+  static subscribeToRecentOrders(
+    limitCount: number,
+    onChange: (orders: Order[]) => void,
+    onError: (error: Error) => void,
+  ): Unsubscribe {
+    return this.listen(
+      () =>
+        onSnapshot(
+          query(collection(db, "orders"), orderBy("createdAt", "desc"), limit(limitCount)),
+          (snapshot) => onChange(snapshot.docs.map((doc) => ({ ...(doc.data() as Order), id: doc.id }))),
+          (error) => onError(this.toOrdersError(error)),
+        ),
+      onError,
+    );
+  }
+
+  /**
+   * Live version of getOrdersPage. The total count isn't live in Firestore, so it is re-counted
+   * whenever the page changes.
+   */
+  static subscribeToOrdersPage(
+    options: { filters?: OrderQueryFilters; pageSize?: number; after?: OrderCursor | null },
+    onChange: (page: OrdersPage) => void,
+    onError: (error: Error) => void,
+  ): Unsubscribe {
+    const { filters, pageSize = 10, after } = options;
+    const ordersCollection = collection(db, "orders");
+    const constraints = this.buildOrderConstraints(filters);
+
+    if (filters && hasInMemoryFilters(filters)) {
+      return this.listen(
+        () =>
+          onSnapshot(
+            query(ordersCollection, ...constraints, orderBy("createdAt", "desc"), limit(MAX_FILTER_SCAN)),
+            (snapshot) => onChange(this.pageInMemory(snapshot.docs, filters, pageSize, after)),
+            (error) => onError(this.toOrdersError(error)),
+          ),
+        onError,
+      );
+    }
+
+    const pageQuery = query(
+      ordersCollection,
+      ...constraints,
+      orderBy("createdAt", "desc"),
+      ...(after ? [startAfter(after)] : []),
+      limit(pageSize + 1), // One extra document tells us whether another page exists
+    );
+
+    return this.listen(
+      () =>
+        onSnapshot(
+          pageQuery,
+          async (snapshot) => {
+            try {
+              const countSnapshot = await getCountFromServer(query(ordersCollection, ...constraints));
+              const docs = snapshot.docs.slice(0, pageSize);
+
+              onChange({
+                orders: docs.map((doc) => ({ ...(doc.data() as Order), id: doc.id })),
+                totalCount: countSnapshot.data().count,
+                lastCursor: docs.length > 0 ? docs[docs.length - 1] : null,
+                hasMore: snapshot.docs.length > pageSize,
+              });
+            } catch (error) {
+              onError(this.toOrdersError(error as Error));
+            }
+          },
+          (error) => onError(this.toOrdersError(error)),
+        ),
+      onError,
+    );
+  }
+
+  /**
+   * Listen to the most recently updated orders. `onChange` gets the orders that were added or
+   * modified since the previous call; the first call reports the initial set with `initial` true.
+   */
+  static subscribeToOrderActivity(
+    limitCount: number,
+    onChange: (changedOrders: Order[], initial: boolean) => void,
+    onError: (error: Error) => void,
+  ): Unsubscribe {
+    let initial = true;
+
+    return this.listen(
+      () =>
+        onSnapshot(
+          query(collection(db, "orders"), orderBy("updatedAt", "desc"), limit(limitCount)),
+          (snapshot) => {
+            const changedOrders = snapshot
+              .docChanges()
+              .filter((change) => change.type !== "removed")
+              .map((change) => ({ ...(change.doc.data() as Order), id: change.doc.id }));
+            onChange(changedOrders, initial);
+            initial = false;
+          },
+          (error) => onError(this.toOrdersError(error)),
+        ),
+      onError,
+    );
+  }
+
+  /**
+   * Get order counts and net revenue for the orders page summary cards using server-side aggregation
+   */
+  static async getOrderSummary(): Promise<OrderSummary> {
+    try {
+      await this.requireUser();
+
+      const ordersCollection = collection(db, "orders");
+      const paidOrders = query(ordersCollection, where("paymentStatus", "==", "success"));
+
+      const [totalSnapshot, pendingSnapshot, toFulfillSnapshot, deliveredSnapshot, revenueSnapshot] = await Promise.all(
+        [
+          getCountFromServer(ordersCollection),
+          getCountFromServer(query(ordersCollection, where("paymentStatus", "==", "pending"))),
+          getCountFromServer(
+            query(paidOrders, where("fulfillmentStatus", "in", ["unfulfilled", "processing", "packed"])),
+          ),
+          getCountFromServer(query(ordersCollection, where("fulfillmentStatus", "==", "delivered"))),
+          getAggregateFromServer(paidOrders, {
+            total: sum("totalAmount"),
+            refunded: sum("refundedAmount"),
+          }),
+        ],
+      );
+
+      const { total, refunded } = revenueSnapshot.data();
+
+      return {
+        totalOrders: totalSnapshot.data().count,
+        pendingPayment: pendingSnapshot.data().count,
+        toFulfill: toFulfillSnapshot.data().count,
+        delivered: deliveredSnapshot.data().count,
+        netRevenue: roundCurrency((total || 0) - (refunded || 0)),
+      };
+    } catch (error) {
+      console.error("Error fetching order summary:", error);
+      if (error instanceof Error && error.message.includes("Missing or insufficient permissions")) {
+        throw new Error(
+          "Firestore permissions denied. Please update your Firebase security rules to allow admin access to orders collection.",
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate an order export on the server. Exports the given orders when `orderIds` is set,
+   * otherwise every order matching the filters. The date range is sent as exact instants, so days
+   * start and end at the admin's midnight rather than the server's.
+   */
+  static async exportOrders(options: {
+    format: ExportFormat;
+    layout: ExportLayout;
+    columns: string[];
+    filters?: OrderQueryFilters;
+    orderIds?: string[];
+  }): Promise<{ file: Blob; fileName: string }> {
+    const { filters = {}, ...body } = options;
+
+    const user = await this.requireUser();
+    const idToken = await user.getIdToken();
+
+    const response = await fetch(`/api/orders/export?${filtersToSearchParams(filters).toString()}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify({
+        ...body,
+        dateFrom: filters.dateFrom?.toISOString(),
+        dateTo: filters.dateTo?.toISOString(),
+      }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null);
+      throw new Error(result?.message || "Failed to export orders");
+    }
+
+    const disposition = response.headers.get("Content-Disposition") ?? "";
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? `empire-sports-orders.${options.format}`;
+
+    return { file: await response.blob(), fileName };
+  }
+
+  /**
+   * The payment provider and mode the server is running in. Throws with the server's explanation
+   * when the provider configuration is invalid.
+   */
+  static async getPaymentGatewayMode(): Promise<
+    PaymentEnvironment & { provider: PaymentProviderId; providerLabel: string }
+  > {
+    const user = await this.requireUser();
+    const idToken = await user.getIdToken();
+
+    const response = await fetch("/api/payment/config", { headers: { Authorization: `Bearer ${idToken}` } });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(result?.message || "Failed to get payment gateway configuration");
+    }
+    return result.data;
+  }
+
+  /**
+   * Most recent payment reconciliation runs, newest first
+   */
+  static async getReconciliationRuns(limitCount: number = 10): Promise<ReconciliationRun[]> {
+    try {
+      await this.requireUser();
+
+      const runsQuery = query(
+        collection(db, RECONCILIATION_RUNS_COLLECTION),
+        orderBy("startedAt", "desc"),
+        limit(limitCount),
+      );
+      const snapshot = await getDocs(runsQuery);
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as ReconciliationRun) }));
+    } catch (error) {
+      console.error("Error getting reconciliation runs:", error);
+      throw new Error(`Failed to get reconciliation runs: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Run payment reconciliation on the server now and return the new run's ID
+   */
+  static async runPaymentReconciliation(): Promise<string> {
+    const user = await this.requireUser();
+    const idToken = await user.getIdToken();
+
+    const response = await fetch("/api/reconciliation", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${idToken}` },
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(result?.message || "Failed to run reconciliation");
+    }
+    return result.data.runId;
+  }
+
+  /**
+   * Apply the gateway's payment state to an order listed in a reconciliation run. Returns the
+   * server's description of what happened.
+   */
+  static async applyGatewayPaymentState(runId: string, orderDocId: string): Promise<string> {
+    const user = await this.requireUser();
+    const idToken = await user.getIdToken();
+
+    const response = await fetch("/api/reconciliation/apply", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify({ runId, orderDocId }),
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(result?.message || "Failed to apply gateway state");
+    }
+    return result.message;
+  }
+
+  /**
+   * Score an order's fraud risk on the server, holding it when it's high risk. Returns the server's
+   * message, e.g. whether the score changed.
+   */
+  static async assessOrderRisk(orderDocId: string): Promise<string> {
+    const user = await this.requireUser();
+    const idToken = await user.getIdToken();
+
+    const response = await fetch("/api/orders/risk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify({ orderDocId }),
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(result?.message || "Failed to assess order risk");
+    }
+    return result.message;
+  }
+
   /**
    * Get top products by sales with fallback data
    */
@@ -204,7 +689,12 @@ export class AdminService {
 
         ordersSnapshot.forEach((doc) => {
           const order = doc.data() as Order;
+          const refundedQuantities = getRefundedQuantities(order);
           order.items.forEach((item) => {
+            // Refunded units don't count as sales
+            const quantity = item.quantity - (refundedQuantities[getOrderItemKey(item)] || 0);
+            if (quantity <= 0) return;
+
             if (!productSales[item.id]) {
               productSales[item.id] = {
                 name: item.name,
@@ -212,8 +702,8 @@ export class AdminService {
                 revenue: 0,
               };
             }
-            productSales[item.id].sales += item.quantity;
-            productSales[item.id].revenue += item.price * item.quantity;
+            productSales[item.id].sales += quantity;
+            productSales[item.id].revenue += item.price * quantity;
           });
         });
 
@@ -386,7 +876,7 @@ export class AdminService {
             chartData[dateKey] = { revenue: 0, orders: 0 };
           }
 
-          chartData[dateKey].revenue += order.totalAmount || 0;
+          chartData[dateKey].revenue += getNetRevenue(order);
           chartData[dateKey].orders += 1;
         }
       });
@@ -395,7 +885,7 @@ export class AdminService {
       const chartDataPoints: ChartDataPoint[] = Object.entries(chartData)
         .map(([date, data]) => ({
           date,
-          revenue: Math.round(data.revenue * 100) / 100, // Round to 2 decimal places
+          revenue: roundCurrency(data.revenue),
           orders: data.orders,
         }))
         .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,62 @@
+import { getNetRevenue } from "@/lib/orderRefunds";
+import { roundCurrency } from "@/lib/orderConstants";
+import { Order } from "@/lib/orderService";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Purchase statistics for a single customer, worked out from their orders.
+ * Only paid orders count as purchases; lifetime value is net of refunds.
+ */
+
+export interface CategoryShare {
+  category: string;
+  quantity: number;
+}
+
+export interface CustomerStats {
+  orderCount: number;
+  paidOrderCount: number;
+  lifetimeValue: number;
+  averageOrderValue: number;
+  firstPurchaseAt: Timestamp | null;
+  lastPurchaseAt: Timestamp | null;
+  failedPayments: number;
+  favouriteCategories: CategoryShare[];
+}
+
+/**
+ * Summarise a customer's orders. `categoriesByProductId` maps product IDs to their category;
+ * items whose product no longer exists are grouped under "Other".
+ */
+export function calculateCustomerStats(
+  orders: Order[],
+  categoriesByProductId: Record<string, string>,
+  maxCategories: number = 3,
+): CustomerStats {
+  const paidOrders = orders
+    .filter((order) => order.paymentStatus === "success")
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  const lifetimeValue = roundCurrency(paidOrders.reduce((sum, order) => sum + getNetRevenue(order), 0));
+
+  const categoryQuantities: Record<string, number> = {};
+  paidOrders.forEach((order) => {
+    order.items.forEach((item) => {
+      const category = categoriesByProductId[item.id] ?? "Other";
+      categoryQuantities[category] = (categoryQuantities[category] || 0) + item.quantity;
+    });
+  });
+
+  return {
+    orderCount: orders.length,
+    paidOrderCount: paidOrders.length,
+    lifetimeValue,
+    averageOrderValue: paidOrders.length > 0 ? roundCurrency(lifetimeValue / paidOrders.length) : 0,
+    firstPurchaseAt: paidOrders[0]?.createdAt ?? null,
+    lastPurchaseAt: paidOrders[paidOrders.length - 1]?.createdAt ?? null,
+    failedPayments: orders.filter((order) => order.paymentStatus === "failed").length,
+    favouriteCategories: Object.entries(categoryQuantities)
+      .map(([category, quantity]) => ({ category, quantity }))
+      .sort((a, b) => b.quantity - a.quantity)
+      .slice(0, maxCategories),
+  };
+}
@@ -0,0 +1,195 @@
+import { roundCurrency } from "@/lib/orderConstants";
+import { getPaymentEventKey } from "@/lib/paymentEvents";
+import { PaymentCallbackStatus, PaymentProvider, PaymentProviderError, PaymentRequest } from "@/lib/paymentProvider";
+import { GatewayPayment } from "@/lib/paymentReconciliation";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Local stand-in for a payment gateway, for development and tests. Bills live in the server's
+ * memory and are paid on the /payment/mock page, which sends callbacks in the same format as
+ * ToyyibPay to /api/payment/callback?provider=mock, so checkout and callback handling can be
+ * exercised end to end without the real gateway. Enable with `PAYMENT_PROVIDER=mock`.
+ */
+
+export type MockPaymentOutcome = "success" | "pending" | "failed";
+
+const OUTCOME_STATUS_CODES: Record<MockPaymentOutcome, string> = { success: "1", pending: "2", failed: "3" };
+
+export interface MockTransaction {
+  refno: string;
+  status: MockPaymentOutcome;
+  amount: number;
+  paidAt: string;
+}
+
+export interface MockBill {
+  billCode: string;
+  orderId: string;
+  amount: number;
+  customerName: string;
+  description: string;
+  createdAt: string;
+  transactions: MockTransaction[];
+}
+
+// Kept on globalThis so bills survive hot reloads in development
+const globalStore = globalThis as typeof globalThis & { mockPaymentBills?: Map<string, MockBill> };
+const bills = (globalStore.mockPaymentBills ??= new Map<string, MockBill>());
+
+/**
+ * Base URL of this app, which plays the gateway's part
+ */
+function getAppUrl(): string {
+  const appUrl = process.env.NEXT_PUBLIC_BASE_URL?.replace(/\/$/, "");
+  if (!appUrl) {
+    throw new PaymentProviderError("NEXT_PUBLIC_BASE_URL must be set to use the mock payment provider");
+  }
+  return appUrl;
+}
+
+/**
+ * Signature on a mock callback, so the callback route verifies mock callbacks the way it does real ones
+ */
+function signCallback(fields: { status: string; order_id: string; refno: string; billcode: string }): string {
+  const secret = process.env.MOCK_PAYMENT_SECRET || "mock-payment-secret";
+  return createHmac("sha256", secret)
+    .update(`${fields.status}${fields.order_id}${fields.refno}${fields.billcode}`)
+    .digest("hex");
+}
+
+export class MockPaymentService {
+  /**
+   * A bill created by the mock provider, or null when this server doesn't know it
+   */
+  static getBill(billCode: string): MockBill | null {
+    return bills.get(billCode) ?? null;
+  }
+
+  /**
+   * Record a payment attempt on a bill and send its callback, as the gateway would after checkout.
+   * `amount` defaults to the bill amount; pass another to simulate an underpayment.
+   */
+  static async pay(
+    billCode: string,
+    outcome: MockPaymentOutcome,
+    amount?: number,
+  ): Promise<{ transaction: MockTransaction; callbackStatus: number }> {
+    const bill = bills.get(billCode);
+    if (!bill) {
+      throw new PaymentProviderError(`Bill ${billCode} not found`);
+    }
+
+    const transaction: MockTransaction = {
+      refno: `MOCKTX${randomBytes(4).toString("hex").toUpperCase()}`,
+      status: outcome,
+      amount: amount ?? bill.amount,
+      paidAt: new Date().toISOString(),
+    };
+    bill.transactions.push(transaction);
+
+    const fields = {
+      refno: transaction.refno,
+      status: OUTCOME_STATUS_CODES[outcome],
+      reason: outcome === "failed" ? "Payment declined (mock)" : "",
+      billcode: bill.billCode,
+      order_id: bill.orderId,
+      amount: transaction.amount.toFixed(2),
+      transaction_time: transaction.paidAt,
+    };
+
+    const formData = new FormData();
+    Object.entries({ ...fields, hash: signCallback(fields) }).forEach(([key, value]) => formData.append(key, value));
+
+    const response = await fetch(`${getAppUrl()}/api/payment/callback?provider=mock`, {
+      method: "POST",
+      body: formData,
+    });
+    return { transaction, callbackStatus: response.status };
+  }
+}
+
+const CALLBACK_STATUSES: Record<string, PaymentCallbackStatus> = { "1": "success", "2": "pending", "3": "failed" };
+
+/**
+ * The mock gateway as a payment provider
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  id: "mock",
+
+  getEnvironment() {
+    return { live: false, modeLabel: "Test", host: new URL(getAppUrl()).host };
+  },
+
+  async createBill(request: PaymentRequest) {
+    const billCode = `MOCK${randomBytes(4).toString("hex").toUpperCase()}`;
+    bills.set(billCode, {
+      billCode,
+      orderId: request.orderId,
+      amount: roundCurrency(request.amount),
+      customerName: request.customerName,
+      description: request.items.map((item) => `${item.name} (Qty: ${item.quantity})`).join(", "),
+      createdAt: new Date().toISOString(),
+      transactions: [],
+    });
+    return { billCode, paymentUrl: `${getAppUrl()}/payment/mock?billcode=${billCode}` };
+  },
+
+  async getBillPayment(billCode): Promise<GatewayPayment> {
+    const bill = bills.get(billCode);
+    if (!bill) {
+      throw new PaymentProviderError(`Bill ${billCode} not found; mock bills are lost when the server restarts`);
+    }
+
+    const paid = bill.transactions.find((transaction) => transaction.status === "success");
+    if (paid) return { state: "paid", transactionId: paid.refno, amount: paid.amount };
+    if (bill.transactions.some((transaction) => transaction.status === "pending")) return { state: "pending" };
+    if (bill.transactions.some((transaction) => transaction.status === "failed")) return { state: "failed" };
+    return { state: "none" };
+  },
+
+  parseCallback(payload) {
+    const { refno, status, reason, billcode, order_id, amount, transaction_time } = payload;
+    const parsedAmount = amount ? parseFloat(amount) : NaN;
+
+    const callback = {
+      eventKey: getPaymentEventKey(payload),
+      orderId: order_id || null,
+      billCode: billcode || null,
+      transactionId: refno || null,
+      status: CALLBACK_STATUSES[status] ?? null,
+      amount: isNaN(parsedAmount) ? null : parsedAmount,
+      reason,
+      transactionTime: transaction_time,
+    };
+
+    if (!refno || !status || !billcode || !order_id) {
+      return { ...callback, error: "Missing required callback parameters" };
+    }
+    if (!callback.status) {
+      return { ...callback, error: `Invalid payment status: ${status}` };
+    }
+    return callback;
+  },
+
+  async verifyCallback(payload) {
+    const { refno, status, billcode, order_id, hash } = payload;
+    if (!refno || !status || !billcode || !order_id || !hash) {
+      return { verified: false, reason: "Missing required callback fields" };
+    }
+
+    const received = Buffer.from(hash);
+    const expected = Buffer.from(signCallback({ status, order_id, refno, billcode }));
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return { verified: false, reason: "Callback hash does not match" };
+    }
+
+    const transaction = bills.get(billcode)?.transactions.find((t) => t.refno === refno);
+    if (!transaction) {
+      return { verified: false, reason: `No transaction ${refno} on bill ${billcode}` };
+    }
+    if (OUTCOME_STATUS_CODES[transaction.status] !== status) {
+      return { verified: false, reason: `Transaction status does not match callback status ${status}` };
+    }
+    return { verified: true, amount: transaction.amount };
+  },
+};
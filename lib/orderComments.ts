@@ -0,0 +1,72 @@
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Internal staff comments on an order. Comments live in their own subcollection
+ * (orders/{orderId}/comments) so they are never touched by the payment callback,
+ * which overwrites `Order.notes`.
+ */
+
+export const ORDER_COMMENTS_SUBCOLLECTION = "comments";
+
+// Cap on indexed words per comment to keep documents small
+const MAX_SEARCH_TOKENS = 100;
+
+export interface CommentMention {
+  uid: string;
+  name: string;
+}
+
+export interface OrderComment {
+  id?: string;
+  body: string;
+  authorId: string | null;
+  authorName: string;
+  mentions: CommentMention[];
+  mentionIds: string[]; // Denormalised from `mentions` for array-contains queries
+  searchTokens: string[]; // Lowercased words from the body for array-contains queries
+  createdAt: Timestamp;
+}
+
+/**
+ * Result of a comment search: the matching comment and the order document it belongs to
+ */
+export interface OrderCommentMatch {
+  orderId: string;
+  comment: OrderComment;
+}
+
+/**
+ * Split text into lowercased search words
+ */
+export function tokenizeCommentText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2);
+}
+
+/**
+ * Unique search tokens stored on a comment
+ */
+export function buildCommentSearchTokens(body: string): string[] {
+  return Array.from(new Set(tokenizeCommentText(body))).slice(0, MAX_SEARCH_TOKENS);
+}
+
+/**
+ * Keep only mentions whose "@Name" still appears in the comment body, once per admin
+ */
+export function resolveMentions(body: string, mentions: CommentMention[]): CommentMention[] {
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    if (seen.has(mention.uid) || !body.includes(`@${mention.name}`)) return false;
+    seen.add(mention.uid);
+    return true;
+  });
+}
+
+/**
+ * Whether a comment contains every word of a search term
+ */
+export function commentMatchesTerm(comment: Pick<OrderComment, "searchTokens">, term: string): boolean {
+  return tokenizeCommentText(term).every((word) => comment.searchTokens.includes(word));
+}
@@ -0,0 +1,37 @@
+/**
+ * Order statuses, labels and helpers shared by the browser and the server. This module imports
+ * nothing, so server code (exports, jobs, filters parsed in API routes) can use it without
+ * pulling in the client Firebase SDK.
+ */
+
+export type FulfillmentStatus = "unfulfilled" | "processing" | "packed" | "shipped" | "delivered" | "cancelled";
+
+export const FULFILLMENT_STATUS_LABELS: Record<FulfillmentStatus, string> = {
+  unfulfilled: "Unfulfilled",
+  processing: "Processing",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const FULFILLMENT_STATUSES = Object.keys(FULFILLMENT_STATUS_LABELS) as FulfillmentStatus[];
+
+export type PaymentStatus = "pending" | "success" | "failed" | "expired";
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Pending",
+  success: "Success",
+  failed: "Failed",
+  expired: "Expired",
+};
+
+export const PAYMENT_STATUSES = Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[];
+
+// Days a payment bill stays payable before the gateway expires it
+export const BILL_EXPIRY_DAYS = 3;
+
+/**
+ * Round a ringgit amount to whole sen
+ */
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
@@ -0,0 +1,238 @@
+import { getRefundedAmount } from "@/lib/orderRefunds";
+import { Order, OrderService } from "@/lib/orderService";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/paymentProvider";
+
+/**
+ * Printable order documents. Each document is rendered as plain HTML into a new window
+ * and handed to the browser's print dialog (which can also save it as a PDF), so several
+ * orders can be printed in one go.
+ */
+
+export type OrderDocumentType = "invoice" | "packing_slip";
+
+export interface PrintResult {
+  printed: number;
+  skipped: Order[]; // Unpaid orders, which can't have an invoice number yet
+}
+
+// Store details shown on invoices; override per deployment with environment variables
+const STORE_DETAILS = {
+  name: process.env.NEXT_PUBLIC_STORE_NAME || "Empire Sports",
+  address: process.env.NEXT_PUBLIC_STORE_ADDRESS || "",
+  email: process.env.NEXT_PUBLIC_STORE_EMAIL || "",
+  phone: process.env.NEXT_PUBLIC_STORE_PHONE || "",
+  registrationNumber: process.env.NEXT_PUBLIC_STORE_REGISTRATION_NUMBER || "",
+};
+
+const DOCUMENT_TITLES: Record<OrderDocumentType, string> = {
+  invoice: "Invoice",
+  packing_slip: "Packing Slip",
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-MY", {
+    style: "currency",
+    currency: "MYR",
+    minimumFractionDigits: 2,
+  }).format(amount || 0);
+};
+
+const formatDate = (order: Order) =>
+  order.createdAt ? new Date(order.createdAt.seconds * 1000).toLocaleDateString() : "N/A";
+
+const PRINT_STYLES = `
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 0; }
+  .document { padding: 32px; page-break-after: always; }
+  .document:last-child { page-break-after: auto; }
+  .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #555; font-size: 12px; line-height: 1.5; }
+  .store { text-align: right; font-size: 12px; line-height: 1.5; }
+  .address { font-size: 13px; margin-bottom: 24px; line-height: 1.5; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 8px 4px; text-align: left; }
+  th { background: #f5f5f5; }
+  .number { text-align: right; }
+  .check { width: 48px; text-align: center; }
+  .totals { margin-left: auto; margin-top: 16px; width: 280px; }
+  .totals td { border: none; padding: 4px; }
+  .totals .grand td { border-top: 2px solid #111; font-weight: bold; }
+`;
+
+const renderStoreDetails = () =>
+  [
+    `<strong>${escapeHtml(STORE_DETAILS.name)}</strong>`,
+    STORE_DETAILS.registrationNumber && `Reg. No. ${escapeHtml(STORE_DETAILS.registrationNumber)}`,
+    STORE_DETAILS.address && escapeHtml(STORE_DETAILS.address),
+    STORE_DETAILS.email && escapeHtml(STORE_DETAILS.email),
+    STORE_DETAILS.phone && escapeHtml(STORE_DETAILS.phone),
+  ]
+    .filter(Boolean)
+    .join("<br />");
+
+const renderCustomer = (order: Order, heading: string) => `
+  <div class="address">
+    <strong>${heading}</strong><br />
+    ${escapeHtml(order.customerName)}<br />
+    ${escapeHtml(order.customerEmail)}<br />
+    ${escapeHtml(order.customerPhone || "")}
+  </div>`;
+
+/**
+ * Customer invoice with line items, charges, refunds and the payment gateway's transaction reference
+ */
+function renderInvoice(order: Order): string {
+  const refundedAmount = getRefundedAmount(order);
+  const rows = order.items
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(item.name)}</td>
+          <td>${escapeHtml(item.size || "—")}</td>
+          <td class="number">${item.quantity}</td>
+          <td class="number">${formatCurrency(item.price)}</td>
+          <td class="number">${formatCurrency(item.subtotal ?? item.price * item.quantity)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  return `
+    <section class="document">
+      <div class="header">
+        <div>
+          <h1>Invoice ${escapeHtml(order.invoiceNumber || "")}</h1>
+          <div class="meta">
+            Order ${escapeHtml(order.orderId)}<br />
+            Date ${formatDate(order)}<br />
+            ${
+              order.transactionId
+                ? `${PAYMENT_PROVIDER_LABELS[order.paymentProvider ?? "toyyibpay"]} Transaction ${escapeHtml(order.transactionId)}`
+                : ""
+            }
+          </div>
+        </div>
+        <div class="store">${renderStoreDetails()}</div>
+      </div>
+      ${renderCustomer(order, "Bill to")}
+      <table>
+        <thead>
+          <tr><th>Item</th><th>Size</th><th class="number">Qty</th><th class="number">Unit Price</th><th class="number">Amount</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <table class="totals">
+        <tr><td>Subtotal</td><td class="number">${formatCurrency(order.subtotal)}</td></tr>
+        <tr><td>Shipping</td><td class="number">${formatCurrency(order.shippingFee)}</td></tr>
+        <tr><td>Discount</td><td class="number">-${formatCurrency(order.discount)}</td></tr>
+        <tr class="grand"><td>Total</td><td class="number">${formatCurrency(order.totalAmount)}</td></tr>
+        ${
+          refundedAmount > 0
+            ? `<tr><td>Refunded</td><td class="number">-${formatCurrency(refundedAmount)}</td></tr>`
+            : ""
+        }
+        ${
+          order.balanceDue
+            ? `<tr><td>${order.balanceDue > 0 ? "Balance due" : "Refund due"}</td><td class="number">${formatCurrency(Math.abs(order.balanceDue))}</td></tr>`
+            : ""
+        }
+      </table>
+    </section>`;
+}
+
+/**
+ * Packing slip for the warehouse: what to pick and who it goes to, without prices
+ */
+function renderPackingSlip(order: Order): string {
+  const rows = order.items
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(item.name)}</td>
+          <td>${escapeHtml(item.size || "—")}</td>
+          <td>${item.quantity}</td>
+          <td class="check">☐</td>
+        </tr>`,
+    )
+    .join("");
+
+  return `
+    <section class="document">
+      <div class="header">
+        <div>
+          <h1>Packing Slip</h1>
+          <div class="meta">
+            Invoice ${escapeHtml(order.invoiceNumber || "")}<br />
+            Order ${escapeHtml(order.orderId)} &middot; ${formatDate(order)}
+          </div>
+        </div>
+        <div class="store">${renderStoreDetails()}</div>
+      </div>
+      ${renderCustomer(order, "Ship to")}
+      <table>
+        <thead>
+          <tr><th>Item</th><th>Size</th><th>Qty</th><th class="check">Packed</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </section>`;
+}
+
+const RENDERERS: Record<OrderDocumentType, (order: Order) => string> = {
+  invoice: renderInvoice,
+  packing_slip: renderPackingSlip,
+};
+
+/**
+ * Print one invoice or packing slip per paid order, each on its own page. Invoice numbers
+ * are assigned on first print and reused afterwards, so reprints keep the same number.
+ */
+export async function printOrderDocuments(type: OrderDocumentType, orders: Order[]): Promise<PrintResult> {
+  const printable = orders.filter((order) => order.id && order.paymentStatus === "success");
+  const skipped = orders.filter((order) => !printable.includes(order));
+
+  if (printable.length === 0) {
+    throw new Error("Only paid orders can be printed");
+  }
+
+  // Open the window before any await, otherwise the browser treats it as an unsolicited pop-up
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("Allow pop-ups for this site to print documents");
+  }
+  printWindow.document.write('<p style="font-family: sans-serif">Preparing documents...</p>');
+
+  try {
+    const invoiceNumbers = await OrderService.assignInvoiceNumbers(printable.map((order) => order.id!));
+    const documents = printable.map((order) => RENDERERS[type]({ ...order, invoiceNumber: invoiceNumbers[order.id!] }));
+    const title =
+      printable.length === 1
+        ? `${DOCUMENT_TITLES[type]} ${invoiceNumbers[printable[0].id!]}`
+        : `${DOCUMENT_TITLES[type]}s (${printable.length})`;
+
+    printWindow.document.open();
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>${escapeHtml(title)}</title>
+          <style>${PRINT_STYLES}</style>
+        </head>
+        <body>${documents.join("")}</body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+
+  return { printed: printable.length, skipped };
+}
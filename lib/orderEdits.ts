@@ -0,0 +1,103 @@
+import { roundCurrency } from "@/lib/orderConstants";
+import { getOrderItemKey } from "@/lib/orderRefunds";
+import { Order, OrderItem } from "@/lib/orderService";
+
+/**
+ * Helpers for editing an order's line items before it ships. Editing a paid order
+ * leaves a balance: positive when the customer owes more, negative when we owe a refund.
+ */
+
+export type OrderItemInput = Omit<OrderItem, "subtotal">;
+
+export interface OrderEditResult {
+  items: OrderItem[];
+  subtotal: number;
+  totalAmount: number;
+  balanceDue: number; // Zero for unpaid orders, which are simply charged the new total
+}
+
+/**
+ * Why an order's items can't be edited, or null when they can
+ */
+export function getOrderEditBlocker(order: Order): string | null {
+  const status = order.fulfillmentStatus ?? "unfulfilled";
+  if (status === "shipped" || status === "delivered" || (order.shipments ?? []).length > 0) {
+    return "Items can't be changed once the order has shipped";
+  }
+  if (status === "cancelled") {
+    return "Cancelled orders can't be edited";
+  }
+  if ((order.refunds ?? []).length > 0) {
+    return "Orders with refunds can't be edited";
+  }
+  return null;
+}
+
+/**
+ * Amount the customer has actually paid for an order
+ */
+export function getPaidAmount(order: Pick<Order, "paymentStatus" | "paidAmount" | "totalAmount">): number {
+  if (order.paymentStatus !== "success") return 0;
+  return order.paidAmount ?? order.totalAmount;
+}
+
+/**
+ * Recalculate totals for a new set of items, keeping the order's shipping fee and discount. Lines
+ * for the same product and size (e.g. after a size swap) are merged, since refunds and returns
+ * track items by product and size.
+ */
+export function calculateOrderEdit(order: Order, items: OrderItemInput[]): OrderEditResult {
+  const merged = new Map<string, OrderItemInput>();
+  items
+    .filter((item) => item.quantity > 0)
+    .forEach((item) => {
+      const key = getOrderItemKey(item);
+      const existing = merged.get(key);
+      if (existing && existing.price !== item.price) {
+        throw new Error(`${item.name}${item.size ? ` (${item.size})` : ""} is listed twice at different prices`);
+      }
+      merged.set(key, existing ? { ...existing, quantity: existing.quantity + item.quantity } : item);
+    });
+  const validItems = Array.from(merged.values());
+  if (validItems.length === 0) {
+    throw new Error("An order needs at least one item. Cancel the order instead.");
+  }
+
+  const nextItems: OrderItem[] = validItems.map((item) => ({
+    ...item,
+    // Firestore rejects undefined values inside arrays
+    size: item.size ?? "",
+    subtotal: roundCurrency(item.price * item.quantity),
+  }));
+  const subtotal = roundCurrency(nextItems.reduce((sum, item) => sum + item.subtotal, 0));
+  const totalAmount = roundCurrency(Math.max(0, subtotal + (order.shippingFee || 0) - (order.discount || 0)));
+  const balanceDue = order.paymentStatus === "success" ? roundCurrency(totalAmount - getPaidAmount(order)) : 0;
+
+  return { items: nextItems, subtotal, totalAmount, balanceDue };
+}
+
+const describeItem = (item: Pick<OrderItem, "name" | "size" | "quantity">) =>
+  `${item.name}${item.size ? ` (${item.size})` : ""} x${item.quantity}`;
+
+/**
+ * Short human-readable summary of what changed between two item lists
+ */
+export function describeItemChanges(before: OrderItem[], after: OrderItem[]): string {
+  const beforeByKey = new Map(before.map((item) => [getOrderItemKey(item), item]));
+  const afterByKey = new Map(after.map((item) => [getOrderItemKey(item), item]));
+  const changes: string[] = [];
+
+  after.forEach((item) => {
+    const previous = beforeByKey.get(getOrderItemKey(item));
+    if (!previous) {
+      changes.push(`added ${describeItem(item)}`);
+    } else if (previous.quantity !== item.quantity) {
+      changes.push(`${item.name}${item.size ? ` (${item.size})` : ""} x${previous.quantity} → x${item.quantity}`);
+    }
+  });
+  before.forEach((item) => {
+    if (!afterByKey.has(getOrderItemKey(item))) changes.push(`removed ${describeItem(item)}`);
+  });
+
+  return changes.join(", ");
+}
@@ -0,0 +1,250 @@
+import { FULFILLMENT_STATUS_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/orderConstants";
+import { Order, OrderItem } from "@/lib/orderService";
+import * as XLSX from "xlsx";
+
+/**
+ * Order exports. Rows are built here and serialized on the server by /api/orders/export,
+ * either one row per order or one row per line item, with the columns the admin picked.
+ */
+
+export type ExportFormat = "xlsx" | "csv" | "json";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV (.csv)",
+  json: "JSON (.json)",
+};
+
+export type ExportLayout = "orders" | "items";
+
+export const EXPORT_LAYOUT_LABELS: Record<ExportLayout, string> = {
+  orders: "One row per order",
+  items: "One row per line item",
+};
+
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  width: number; // Column width in characters for XLSX
+  layouts: ExportLayout[];
+  value: (order: Order, item?: OrderItem) => ExportValue;
+}
+
+// Exports are generated on the server, so dates are written in the store's time zone rather than the server's
+const EXPORT_TIME_ZONE = "Asia/Kuala_Lumpur";
+
+const storeDateFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: EXPORT_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+// YYYY-MM-DD and HH:mm of an instant in the store's time zone
+const toStoreDateParts = (date: Date) => {
+  const parts = Object.fromEntries(storeDateFormat.formatToParts(date).map((part) => [part.type, part.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+};
+
+// Timestamps from both the client and admin SDKs expose seconds
+const formatDateTime = (timestamp?: { seconds: number }) => {
+  if (!timestamp) return "";
+  const { date, time } = toStoreDateParts(new Date(timestamp.seconds * 1000));
+  return `${date} ${time}`;
+};
+
+const BOTH_LAYOUTS: ExportLayout[] = ["orders", "items"];
+
+export const ORDER_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "orderId", label: "Order ID", width: 15, layouts: BOTH_LAYOUTS, value: (order) => order.orderId },
+  { key: "date", label: "Date", width: 17, layouts: BOTH_LAYOUTS, value: (order) => formatDateTime(order.createdAt) },
+  {
+    key: "payment",
+    label: "Payment",
+    width: 10,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => PAYMENT_STATUS_LABELS[order.paymentStatus],
+  },
+  {
+    key: "fulfillment",
+    label: "Fulfillment",
+    width: 12,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => FULFILLMENT_STATUS_LABELS[order.fulfillmentStatus ?? "unfulfilled"],
+  },
+  {
+    key: "tracking",
+    label: "Tracking",
+    width: 25,
+    layouts: BOTH_LAYOUTS,
+    value: (order) =>
+      (order.shipments ?? []).map((shipment) => `${shipment.courier} ${shipment.trackingNumber}`).join("\n"),
+  },
+  {
+    key: "customerName",
+    label: "Customer Name",
+    width: 20,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.customerName,
+  },
+  {
+    key: "customerEmail",
+    label: "Customer Email",
+    width: 25,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.customerEmail,
+  },
+  {
+    key: "customerPhone",
+    label: "Customer Phone",
+    width: 15,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.customerPhone || "",
+  },
+  {
+    key: "items",
+    label: "Items",
+    width: 50,
+    layouts: ["orders"],
+    value: (order) =>
+      order.items
+        .map((item) => `${item.name} (${item.size ?? "-"}) x${item.quantity} - RM${item.price.toFixed(2)}`)
+        .join("\n"),
+  },
+  { key: "productId", label: "Product ID", width: 15, layouts: ["items"], value: (_, item) => item?.id ?? "" },
+  { key: "itemName", label: "Item", width: 30, layouts: ["items"], value: (_, item) => item?.name ?? "" },
+  { key: "size", label: "Size", width: 8, layouts: ["items"], value: (_, item) => item?.size ?? "" },
+  { key: "quantity", label: "Quantity", width: 10, layouts: ["items"], value: (_, item) => item?.quantity ?? 0 },
+  { key: "unitPrice", label: "Unit Price (RM)", width: 15, layouts: ["items"], value: (_, item) => item?.price ?? 0 },
+  {
+    key: "lineTotal",
+    label: "Line Total (RM)",
+    width: 15,
+    layouts: ["items"],
+    value: (_, item) => item?.subtotal ?? 0,
+  },
+  {
+    key: "shippingFee",
+    label: "Shipping (RM)",
+    width: 13,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.shippingFee || 0,
+  },
+  { key: "discount", label: "Discount (RM)", width: 13, layouts: BOTH_LAYOUTS, value: (order) => order.discount || 0 },
+  {
+    key: "totalAmount",
+    label: "Order Total (RM)",
+    width: 15,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.totalAmount,
+  },
+  {
+    key: "refunded",
+    label: "Refunded (RM)",
+    width: 15,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.refundedAmount || 0,
+  },
+  {
+    key: "transactionId",
+    label: "Transaction ID",
+    width: 20,
+    layouts: BOTH_LAYOUTS,
+    value: (order) => order.transactionId || "",
+  },
+  { key: "billCode", label: "Bill Code", width: 12, layouts: BOTH_LAYOUTS, value: (order) => order.billCode || "" },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  "orderId",
+  "date",
+  "payment",
+  "fulfillment",
+  "tracking",
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+  "items",
+  "itemName",
+  "size",
+  "quantity",
+  "unitPrice",
+  "lineTotal",
+  "totalAmount",
+  "refunded",
+];
+
+export const EXPORT_FORMATS: ExportFormat[] = ["xlsx", "csv", "json"];
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * Columns available for a layout, in export order, narrowed to the selected keys
+ */
+export function getExportColumns(layout: ExportLayout, keys: string[]): ExportColumn[] {
+  return ORDER_EXPORT_COLUMNS.filter((column) => column.layouts.includes(layout) && keys.includes(column.key));
+}
+
+/**
+ * Build export rows keyed by column label
+ */
+export function buildExportRows(
+  orders: Order[],
+  layout: ExportLayout,
+  columns: ExportColumn[],
+): Record<string, ExportValue>[] {
+  const toRow = (order: Order, item?: OrderItem) =>
+    Object.fromEntries(columns.map((column) => [column.label, column.value(order, item)]));
+
+  if (layout === "orders") return orders.map((order) => toRow(order));
+  return orders.flatMap((order) => order.items.map((item) => toRow(order, item)));
+}
+
+/**
+ * File name stamped with the store's date, e.g. empire-sports-order-items-2025-01-31.csv
+ */
+export function getExportFileName(
+  format: ExportFormat,
+  layout: ExportLayout,
+  selectedOnly: boolean = false,
+  date: Date = new Date(),
+): string {
+  const stamp = toStoreDateParts(date).date;
+  const subject = layout === "items" ? "order-items" : "orders";
+  return `empire-sports-${selectedOnly ? "selected-" : ""}${subject}-${stamp}.${format}`;
+}
+
+/**
+ * Serialize rows into the requested format
+ */
+export function serializeExport(
+  rows: Record<string, ExportValue>[],
+  columns: ExportColumn[],
+  format: ExportFormat,
+): { body: string | ArrayBuffer; contentType: string } {
+  const contentType = EXPORT_CONTENT_TYPES[format];
+
+  if (format === "json") {
+    return { body: JSON.stringify(rows, null, 2), contentType };
+  }
+
+  const ws = XLSX.utils.json_to_sheet(rows, { header: columns.map((column) => column.label) });
+
+  if (format === "csv") {
+    return { body: XLSX.utils.sheet_to_csv(ws), contentType };
+  }
+
+  ws["!cols"] = columns.map((column) => ({ wch: column.width }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Orders");
+  return { body: XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer, contentType };
+}
@@ -0,0 +1,138 @@
+import { FULFILLMENT_STATUSES, FulfillmentStatus, PAYMENT_STATUSES, PaymentStatus } from "@/lib/orderConstants";
+import { Order } from "@/lib/orderService";
+
+/**
+ * Order filters used by the orders page. Status, payment status and date range are applied
+ * by Firestore; the rest can't be expressed as Firestore queries and are matched in memory.
+ */
+export interface OrderQueryFilters {
+  fulfillmentStatus?: FulfillmentStatus | "awaiting_shipment";
+  paymentStatus?: PaymentStatus;
+  dateFrom?: Date;
+  dateTo?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  product?: string; // Matches item name or product ID
+  size?: string;
+  customer?: string; // Matches customer email or phone
+}
+
+const STATUS_FILTERS: NonNullable<OrderQueryFilters["fulfillmentStatus"]>[] = [
+  ...FULFILLMENT_STATUSES,
+  "awaiting_shipment",
+];
+
+/**
+ * Whether any filter needs the in-memory pass
+ */
+export function hasInMemoryFilters(filters: OrderQueryFilters): boolean {
+  return (
+    filters.minAmount !== undefined ||
+    filters.maxAmount !== undefined ||
+    !!filters.product ||
+    !!filters.size ||
+    !!filters.customer
+  );
+}
+
+const normalizePhone = (phone: string) => phone.replace(/[^0-9]/g, "");
+
+/**
+ * Match an order against the filters Firestore can't evaluate
+ */
+export function matchesInMemoryFilters(order: Order, filters: OrderQueryFilters): boolean {
+  if (filters.minAmount !== undefined && order.totalAmount < filters.minAmount) return false;
+  if (filters.maxAmount !== undefined && order.totalAmount > filters.maxAmount) return false;
+
+  if (filters.product) {
+    const product = filters.product.toLowerCase();
+    const hasProduct = order.items.some(
+      (item) => item.name.toLowerCase().includes(product) || item.id.toLowerCase() === product,
+    );
+    if (!hasProduct) return false;
+  }
+
+  if (filters.size) {
+    const size = filters.size.toLowerCase();
+    if (!order.items.some((item) => item.size?.toLowerCase() === size)) return false;
+  }
+
+  if (filters.customer) {
+    const customer = filters.customer.toLowerCase().trim();
+    const phoneDigits = normalizePhone(customer);
+    const matchesEmail = order.customerEmail?.toLowerCase().includes(customer);
+    const matchesPhone = phoneDigits.length > 0 && normalizePhone(order.customerPhone || "").includes(phoneDigits);
+    if (!matchesEmail && !matchesPhone) return false;
+  }
+
+  return true;
+}
+
+const toDateParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Local date from a YYYY-MM-DD param at the given time of day, or undefined when the param isn't a
+ * real calendar date (dates like 2024-02-30 would otherwise roll over into the next month)
+ */
+const fromDateParam = (value: string | null, time: string): Date | undefined => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T${time}`);
+  return !isNaN(date.getTime()) && toDateParam(date) === value ? date : undefined;
+};
+
+/**
+ * Encode filters as URL search params so a filtered view can be bookmarked and shared
+ */
+export function filtersToSearchParams(filters: OrderQueryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.fulfillmentStatus) params.set("status", filters.fulfillmentStatus);
+  if (filters.paymentStatus) params.set("payment", filters.paymentStatus);
+  if (filters.dateFrom) params.set("from", toDateParam(filters.dateFrom));
+  if (filters.dateTo) params.set("to", toDateParam(filters.dateTo));
+  if (filters.minAmount !== undefined) params.set("min", String(filters.minAmount));
+  if (filters.maxAmount !== undefined) params.set("max", String(filters.maxAmount));
+  if (filters.product) params.set("product", filters.product);
+  if (filters.size) params.set("size", filters.size);
+  if (filters.customer) params.set("customer", filters.customer);
+
+  return params;
+}
+
+/**
+ * Decode filters from URL search params, ignoring anything malformed
+ */
+export function filtersFromSearchParams(params: URLSearchParams): OrderQueryFilters {
+  const filters: OrderQueryFilters = {};
+
+  const status = params.get("status") as OrderQueryFilters["fulfillmentStatus"] | null;
+  if (status && STATUS_FILTERS.includes(status)) filters.fulfillmentStatus = status;
+
+  const payment = params.get("payment") as PaymentStatus | null;
+  if (payment && PAYMENT_STATUSES.includes(payment)) filters.paymentStatus = payment;
+
+  const dateFrom = fromDateParam(params.get("from"), "00:00:00");
+  if (dateFrom) filters.dateFrom = dateFrom;
+
+  // The end date is inclusive, so extend it to the end of that day
+  const dateTo = fromDateParam(params.get("to"), "23:59:59.999");
+  if (dateTo) filters.dateTo = dateTo;
+
+  const min = parseFloat(params.get("min") ?? "");
+  if (!isNaN(min)) filters.minAmount = min;
+
+  const max = parseFloat(params.get("max") ?? "");
+  if (!isNaN(max)) filters.maxAmount = max;
+
+  const product = params.get("product");
+  if (product) filters.product = product;
+
+  const size = params.get("size");
+  if (size) filters.size = size;
+
+  const customer = params.get("customer");
+  if (customer) filters.customer = customer;
+
+  return filters;
+}
@@ -0,0 +1,107 @@
+import { Order } from "@/lib/orderService";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Order history helpers shared by the client (OrderService) and server (ServerOrderService).
+ * History entries live in an append-only `orders/{orderId}/history` subcollection.
+ */
+
+export const ORDER_HISTORY_SUBCOLLECTION = "history";
+
+// "toyyibpay_callback" is kept for entries written before callbacks were recorded per provider
+export type OrderChangeSource =
+  | "admin"
+  | "payment_callback"
+  | "toyyibpay_callback"
+  | "reconciliation"
+  | "expiry_job"
+  | "risk_assessment";
+
+export const ORDER_CHANGE_SOURCE_LABELS: Record<OrderChangeSource, string> = {
+  admin: "Admin UI",
+  payment_callback: "Payment callback",
+  toyyibpay_callback: "ToyyibPay callback",
+  reconciliation: "Reconciliation",
+  expiry_job: "Expiry job",
+  risk_assessment: "Risk assessment",
+};
+
+export const TRACKED_ORDER_FIELDS = [
+  "status",
+  "paymentStatus",
+  "fulfillmentStatus",
+  "billCode",
+  "transactionId",
+  "refundStatus",
+  "stockStatus",
+  "holdStatus",
+] as const;
+
+export type TrackedOrderField = (typeof TRACKED_ORDER_FIELDS)[number];
+
+export const TRACKED_ORDER_FIELD_LABELS: Record<TrackedOrderField, string> = {
+  status: "Status",
+  paymentStatus: "Payment",
+  fulfillmentStatus: "Fulfillment",
+  billCode: "Bill code",
+  transactionId: "Transaction ID",
+  refundStatus: "Refund",
+  stockStatus: "Stock",
+  holdStatus: "Hold",
+};
+
+export interface OrderFieldChange {
+  field: TrackedOrderField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface OrderHistoryEntry {
+  id?: string;
+  changes: OrderFieldChange[];
+  source: OrderChangeSource;
+  actorId: string | null;
+  actorName: string;
+  note?: string;
+  createdAt: Timestamp;
+}
+
+export interface OrderChangeContext {
+  source: OrderChangeSource;
+  actorId?: string | null;
+  actorName?: string;
+  note?: string;
+}
+
+/**
+ * Compare the tracked fields of an order against a pending update
+ */
+export function diffOrderFields(before: Partial<Order>, updates: Partial<Order>): OrderFieldChange[] {
+  return TRACKED_ORDER_FIELDS.filter((field) => field in updates && updates[field] !== undefined)
+    .map((field) => ({
+      field,
+      from: (before[field] as string | undefined) ?? null,
+      to: (updates[field] as string | undefined) ?? null,
+    }))
+    .filter((change) => change.from !== change.to);
+}
+
+/**
+ * Build a history entry (without timestamp) for a change, or null when nothing worth recording changed
+ */
+export function buildHistoryEntry(
+  changes: OrderFieldChange[],
+  context: OrderChangeContext,
+): Omit<OrderHistoryEntry, "id" | "createdAt"> | null {
+  if (changes.length === 0 && !context.note) {
+    return null;
+  }
+
+  return {
+    changes,
+    source: context.source,
+    actorId: context.actorId ?? null,
+    actorName: context.actorName || ORDER_CHANGE_SOURCE_LABELS[context.source],
+    ...(context.note && { note: context.note }),
+  };
+}
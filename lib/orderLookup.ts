@@ -0,0 +1,47 @@
+import { Order } from "@/lib/orderService";
+
+/**
+ * Order lookup for support tickets. Exact references (order ID, ToyyibPay transaction ID or
+ * bill code, customer email or phone) are matched by Firestore; a product name is the fallback.
+ */
+
+export type OrderLookupField = "orderId" | "transactionId" | "billCode" | "email" | "phone" | "product";
+
+export const ORDER_LOOKUP_FIELD_LABELS: Record<OrderLookupField, string> = {
+  orderId: "Order ID",
+  transactionId: "Transaction ID",
+  billCode: "Bill code",
+  email: "Customer email",
+  phone: "Customer phone",
+  product: "Product",
+};
+
+// Product names can't be queried, so the product fallback only searches this many of the newest orders
+export const PRODUCT_LOOKUP_SCAN_LIMIT = 500;
+
+export interface OrderLookupMatch {
+  order: Order;
+  matchedOn: OrderLookupField;
+}
+
+/**
+ * Normalize a Malaysian mobile number to local format (e.g. +60 12-345 6789 becomes 0123456789).
+ * Returns null when the input isn't a Malaysian mobile number.
+ */
+export function normalizeMalaysianPhone(phone: string): string | null {
+  let digits = phone.replace(/[^0-9]/g, "");
+  if (digits.startsWith("60")) digits = digits.slice(1);
+  else if (digits.startsWith("1")) digits = `0${digits}`;
+
+  return /^01[0-9]{8,9}$/.test(digits) ? digits : null;
+}
+
+/**
+ * The ways a normalized number may have been stored on an order. The storefront strips spaces
+ * but keeps whatever prefix and dashes the customer typed.
+ */
+export function getPhoneVariants(normalizedPhone: string): string[] {
+  const subscriber = normalizedPhone.slice(1);
+  const dashed = `${normalizedPhone.slice(0, 3)}-${normalizedPhone.slice(3)}`;
+  return [normalizedPhone, `60${subscriber}`, `+60${subscriber}`, dashed, `+6${dashed}`];
+}
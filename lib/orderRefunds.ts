@@ -0,0 +1,188 @@
+import { roundCurrency } from "@/lib/orderConstants";
+import { Order, OrderItem } from "@/lib/orderService";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Refund helpers. Refunds are paid out manually (ToyyibPay has no refund API),
+ * so these only record what was returned to the customer.
+ */
+
+export type RefundStatus = "partially_refunded" | "refunded";
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  partially_refunded: "Partially Refunded",
+  refunded: "Refunded",
+};
+
+export interface RefundItem {
+  itemKey: string;
+  name: string;
+  size?: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  type: "full" | "partial";
+  amount: number;
+  reason: string;
+  items: RefundItem[];
+  actorId: string | null;
+  actorName: string;
+  createdAt: Timestamp;
+}
+
+export interface RefundRequest {
+  type: "full" | "partial";
+  reason: string;
+  // Required for partial refunds: quantity to refund per item key
+  items?: { itemKey: string; quantity: number }[];
+}
+
+/**
+ * Stable key for a line item; the same product can appear once per size
+ */
+export function getOrderItemKey(item: Pick<OrderItem, "id" | "size">): string {
+  return `${item.id}:${item.size ?? ""}`;
+}
+
+/**
+ * Total amount refunded on an order so far
+ */
+export function getRefundedAmount(order: Pick<Order, "refundedAmount">): number {
+  return order.refundedAmount ?? 0;
+}
+
+/**
+ * Amount that can still be refunded on a paid order
+ */
+export function getRefundableAmount(order: Pick<Order, "totalAmount" | "refundedAmount" | "paymentStatus">): number {
+  if (order.paymentStatus !== "success") return 0;
+  return Math.max(0, roundCurrency(order.totalAmount - getRefundedAmount(order)));
+}
+
+/**
+ * Revenue an order contributes once refunds are taken out. Unpaid orders contribute nothing.
+ */
+export function getNetRevenue(order: Pick<Order, "totalAmount" | "refundedAmount" | "paymentStatus">): number {
+  if (order.paymentStatus !== "success") return 0;
+  return Math.max(0, roundCurrency((order.totalAmount || 0) - getRefundedAmount(order)));
+}
+
+/**
+ * Quantity of each line item already refunded, keyed by item key
+ */
+export function getRefundedQuantities(order: Pick<Order, "refunds">): Record<string, number> {
+  const quantities: Record<string, number> = {};
+  (order.refunds ?? []).forEach((refund) => {
+    refund.items.forEach((item) => {
+      quantities[item.itemKey] = (quantities[item.itemKey] || 0) + item.quantity;
+    });
+  });
+  return quantities;
+}
+
+/**
+ * Work out the refund line items and amount for a request, validating it against the order
+ */
+export function calculateRefund(
+  order: Pick<Order, "items" | "totalAmount" | "refundedAmount" | "paymentStatus" | "refunds">,
+  request: RefundRequest,
+): { amount: number; items: RefundItem[] } {
+  const refundable = getRefundableAmount(order);
+  if (refundable <= 0) {
+    throw new Error("This order has nothing left to refund");
+  }
+
+  const refundedQuantities = getRefundedQuantities(order);
+
+  if (request.type === "full") {
+    // Refund everything that hasn't been refunded yet
+    const items = order.items
+      .map((item) => {
+        const key = getOrderItemKey(item);
+        const quantity = item.quantity - (refundedQuantities[key] || 0);
+        return {
+          itemKey: key,
+          name: item.name,
+          size: item.size,
+          quantity,
+          amount: roundCurrency(item.price * quantity),
+        };
+      })
+      .filter((item) => item.quantity > 0);
+
+    return { amount: refundable, items };
+  }
+
+  const items: RefundItem[] = (request.items ?? [])
+    .filter((requested) => requested.quantity > 0)
+    .map((requested) => {
+      const item = order.items.find((orderItem) => getOrderItemKey(orderItem) === requested.itemKey);
+      if (!item) {
+        throw new Error("Refund item not found on this order");
+      }
+
+      const remaining = item.quantity - (refundedQuantities[requested.itemKey] || 0);
+      if (requested.quantity > remaining) {
+        throw new Error(`Only ${remaining} of ${item.name} can still be refunded`);
+      }
+
+      return {
+        itemKey: requested.itemKey,
+        name: item.name,
+        size: item.size,
+        quantity: requested.quantity,
+        amount: roundCurrency(item.price * requested.quantity),
+      };
+    });
+
+  if (items.length === 0) {
+    throw new Error("Select at least one item to refund");
+  }
+
+  const amount = Math.min(refundable, roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)));
+
+  return { amount, items };
+}
+
+/**
+ * Refund status an order should have after its refunded amount changes
+ */
+export function getRefundStatus(totalAmount: number, refundedAmount: number): RefundStatus | undefined {
+  if (refundedAmount <= 0) return undefined;
+  return refundedAmount >= totalAmount ? "refunded" : "partially_refunded";
+}
+
+/**
+ * Record a refund against an order: returns the refund and the order fields to update
+ */
+export function buildRefundUpdate(
+  order: Pick<Order, "items" | "totalAmount" | "refundedAmount" | "paymentStatus" | "refunds">,
+  request: RefundRequest,
+  actor: { actorId?: string | null; actorName?: string },
+): { refund: Refund; updates: Pick<Order, "refunds" | "refundedAmount" | "refundStatus"> } {
+  const { amount, items } = calculateRefund(order, request);
+  const refundedAmount = roundCurrency(getRefundedAmount(order) + amount);
+  const refund: Refund = {
+    id: crypto.randomUUID(),
+    type: request.type,
+    amount,
+    reason: request.reason,
+    // Firestore rejects undefined values inside arrays
+    items: items.map((item) => ({ ...item, size: item.size ?? "" })),
+    actorId: actor.actorId ?? null,
+    actorName: actor.actorName || "Admin",
+    createdAt: Timestamp.now(),
+  };
+
+  return {
+    refund,
+    updates: {
+      refunds: [...(order.refunds ?? []), refund],
+      refundedAmount,
+      refundStatus: getRefundStatus(order.totalAmount, refundedAmount),
+    },
+  };
+}
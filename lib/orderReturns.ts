@@ -0,0 +1,186 @@
+import { Order, OrderItem } from "@/lib/orderService";
+import { getOrderItemKey } from "@/lib/orderRefunds";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Return (RMA) helpers. A return moves through requested → approved → received → inspected →
+ * completed, or gets rejected before the goods arrive. Completing it restocks the goods,
+ * refunds them or sends replacements.
+ */
+
+export const RETURNS_COLLECTION = "returns";
+
+export type ReturnStatus = "requested" | "approved" | "rejected" | "received" | "inspected" | "completed";
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  received: "Received",
+  inspected: "Inspected",
+  completed: "Completed",
+};
+
+// Completing happens through resolveReturn and inspecting through recordInspection, never directly
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received", "rejected"],
+  rejected: [],
+  received: ["inspected"],
+  inspected: ["completed"],
+  completed: [],
+};
+
+export type ReturnResolution = "restock" | "refund" | "exchange";
+
+export const RETURN_RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  restock: "Restock only",
+  refund: "Refund",
+  exchange: "Exchange",
+};
+
+export type ReturnCondition = "resellable" | "damaged";
+
+export const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+  resellable: "Resellable",
+  damaged: "Damaged",
+};
+
+export interface ReturnItem {
+  itemKey: string;
+  productId: string;
+  name: string;
+  size: string;
+  price: number;
+  quantity: number;
+}
+
+// Replacement sent out for an exchange
+export interface ExchangeItem {
+  productId: string;
+  name: string;
+  size: string;
+  quantity: number;
+}
+
+export interface ReturnEvent {
+  status: ReturnStatus;
+  note?: string;
+  actorId: string | null;
+  actorName: string;
+  createdAt: Timestamp;
+}
+
+export interface ReturnRequest {
+  id?: string;
+  returnNumber: string;
+  orderDocId: string; // Firestore document ID of the order
+  orderId: string; // Human-readable order number
+  userId: string;
+  customerName: string;
+  customerEmail: string;
+  items: ReturnItem[];
+  reason: string;
+  requestedBy: "customer" | "staff";
+  status: ReturnStatus;
+  condition?: ReturnCondition;
+  inspectionNotes?: string;
+  resolution?: ReturnResolution;
+  restocked?: boolean;
+  refundAmount?: number;
+  exchangeItems?: ExchangeItem[];
+  events: ReturnEvent[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Format a sequential return number, e.g. RMA-000042
+ */
+export function formatReturnNumber(sequence: number): string {
+  return `RMA-${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Why a return can't be opened for an order, or null when it can
+ */
+export function getReturnBlocker(order: Pick<Order, "paymentStatus" | "fulfillmentStatus">): string | null {
+  if (order.paymentStatus !== "success") {
+    return "Only paid orders can be returned";
+  }
+  if (order.fulfillmentStatus !== "shipped" && order.fulfillmentStatus !== "delivered") {
+    return "Returns can be opened once the order has shipped";
+  }
+  return null;
+}
+
+/**
+ * Quantity of each line item that can still be returned, keyed by item key
+ */
+export function getReturnableQuantities(order: Pick<Order, "items" | "returnedQuantities">): Record<string, number> {
+  const quantities: Record<string, number> = {};
+  order.items.forEach((item) => {
+    const key = getOrderItemKey(item);
+    quantities[key] = Math.max(0, item.quantity - (order.returnedQuantities?.[key] ?? 0));
+  });
+  return quantities;
+}
+
+/**
+ * Turn requested quantities into return line items, validating them against the order
+ */
+export function buildReturnItems(
+  order: Pick<Order, "items" | "returnedQuantities">,
+  requested: { itemKey: string; quantity: number }[],
+): ReturnItem[] {
+  const returnable = getReturnableQuantities(order);
+
+  const items = requested
+    .filter((request) => request.quantity > 0)
+    .map((request) => {
+      const item = order.items.find((orderItem: OrderItem) => getOrderItemKey(orderItem) === request.itemKey);
+      if (!item) {
+        throw new Error("Return item not found on this order");
+      }
+      if (request.quantity > returnable[request.itemKey]) {
+        throw new Error(`Only ${returnable[request.itemKey]} of ${item.name} can still be returned`);
+      }
+
+      return {
+        itemKey: request.itemKey,
+        productId: item.id,
+        name: item.name,
+        size: item.size ?? "",
+        price: item.price,
+        quantity: request.quantity,
+      };
+    });
+
+  if (items.length === 0) {
+    throw new Error("Select at least one item to return");
+  }
+  return items;
+}
+
+/**
+ * Order's returned quantities after adding (or with a negative sign, removing) a return's items
+ */
+export function adjustReturnedQuantities(
+  current: Record<string, number> | undefined,
+  items: Pick<ReturnItem, "itemKey" | "quantity">[],
+  sign: 1 | -1,
+): Record<string, number> {
+  const quantities = { ...(current ?? {}) };
+  items.forEach((item) => {
+    const next = (quantities[item.itemKey] ?? 0) + sign * item.quantity;
+    if (next > 0) {
+      quantities[item.itemKey] = next;
+    } else {
+      delete quantities[item.itemKey];
+    }
+  });
+  return quantities;
+}
+
+export const describeReturnItems = (items: Pick<ReturnItem, "name" | "size" | "quantity">[]) =>
+  items.map((item) => `${item.name}${item.size ? ` (${item.size})` : ""} x${item.quantity}`).join(", ");
@@ -0,0 +1,87 @@
+import { Order } from "@/lib/orderService";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Fraud risk scoring. Each signal adds to a 0-100 score; high-risk orders are put on hold
+ * so they can't be fulfilled until someone has reviewed them.
+ */
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "Low Risk",
+  medium: "Medium Risk",
+  high: "High Risk",
+};
+
+export interface OrderRisk {
+  score: number;
+  level: RiskLevel;
+  reasons: string[];
+  assessedAt: Timestamp;
+}
+
+// What we know about the customer beyond the order itself
+export interface RiskSignals {
+  profileEmail: string | null; // Email on the user profile, null when there's no profile
+  failedPaymentsByUser: number;
+  failedPaymentsByPhone: number;
+  ordersInWindow: number; // Orders from the same customer around this order's time, including it
+}
+
+export const RISK_RULES = {
+  emailMismatchScore: 30,
+  failedPaymentsThreshold: 3,
+  failedPaymentsScore: 30,
+  highValueAmount: 2000, // RM; a few times our typical basket
+  highValueScore: 20,
+  velocityWindowMinutes: 60,
+  velocityThreshold: 3,
+  velocityScore: 25,
+  mediumLevel: 25,
+  highLevel: 50,
+};
+
+/**
+ * Risk level for a score
+ */
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= RISK_RULES.highLevel) return "high";
+  if (score >= RISK_RULES.mediumLevel) return "medium";
+  return "low";
+}
+
+/**
+ * Score an order against the risk rules
+ */
+export function scoreOrderRisk(
+  order: Pick<Order, "customerEmail" | "totalAmount">,
+  signals: RiskSignals,
+): Omit<OrderRisk, "assessedAt"> {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (signals.profileEmail && signals.profileEmail.trim().toLowerCase() !== order.customerEmail.trim().toLowerCase()) {
+    score += RISK_RULES.emailMismatchScore;
+    reasons.push(`Order email ${order.customerEmail} differs from profile email ${signals.profileEmail}`);
+  }
+
+  const failedPayments = Math.max(signals.failedPaymentsByUser, signals.failedPaymentsByPhone);
+  if (failedPayments >= RISK_RULES.failedPaymentsThreshold) {
+    score += RISK_RULES.failedPaymentsScore;
+    reasons.push(`${failedPayments} failed payments from this customer`);
+  }
+
+  if (order.totalAmount >= RISK_RULES.highValueAmount) {
+    score += RISK_RULES.highValueScore;
+    reasons.push(`High order value (RM${order.totalAmount.toFixed(2)})`);
+  }
+
+  if (signals.ordersInWindow >= RISK_RULES.velocityThreshold) {
+    score += RISK_RULES.velocityScore;
+    reasons.push(`${signals.ordersInWindow} orders within ${RISK_RULES.velocityWindowMinutes} minutes`);
+  }
+
+  score = Math.min(100, score);
+  return { score, level: getRiskLevel(score), reasons };
+}
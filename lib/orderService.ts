@@ -1,16 +1,74 @@
 import {
   addDoc,
   collection,
+  collectionGroup,
   doc,
   getDoc,
   getDocs,
+  limit,
   orderBy,
   query,
+  runTransaction,
   Timestamp,
-  updateDoc,
+  Transaction,
   where,
+  writeBatch,
+  WriteBatch,
 } from "firebase/firestore";
-import { db } from "./firebase";
+import { auth, db } from "./firebase";
+import {
+  buildCommentSearchTokens,
+  commentMatchesTerm,
+  CommentMention,
+  ORDER_COMMENTS_SUBCOLLECTION,
+  OrderComment,
+  OrderCommentMatch,
+  resolveMentions,
+  tokenizeCommentText,
+} from "./orderComments";
+import {
+  buildHistoryEntry,
+  diffOrderFields,
+  ORDER_HISTORY_SUBCOLLECTION,
+  OrderChangeContext,
+  OrderHistoryEntry,
+} from "./orderHistory";
+import {
+  calculateOrderEdit,
+  describeItemChanges,
+  getOrderEditBlocker,
+  getPaidAmount,
+  OrderItemInput,
+} from "./orderEdits";
+import {
+  applyStockDelta,
+  getPaymentStockChange,
+  getReleaseStockChange,
+  getReservationChangeDeltas,
+  getStockChangeUpdates,
+  getStockDeltas,
+  getStockReservations,
+  isStockTracked,
+  OutOfStockError,
+  StockChange,
+  StockDelta,
+  StockLevel,
+  StockReservation,
+  StockStatus,
+} from "./stockReservations";
+import { buildRefundUpdate, Refund, RefundRequest, RefundStatus } from "./orderRefunds";
+import { OrderRisk } from "./orderRisk";
+import { matchesInMemoryFilters } from "./orderFilters";
+import {
+  getPhoneVariants,
+  normalizeMalaysianPhone,
+  OrderLookupField,
+  OrderLookupMatch,
+  PRODUCT_LOOKUP_SCAN_LIMIT,
+} from "./orderLookup";
+import { PAYMENT_PROVIDER_LABELS, PaymentProviderId } from "./paymentProvider";
+import { FULFILLMENT_STATUS_LABELS, FulfillmentStatus, PaymentStatus, roundCurrency } from "./orderConstants";
+import { UserProfile } from "./userService";
 
 export interface OrderItem {
   id: string;
@@ -21,6 +79,93 @@ export interface OrderItem {
   subtotal: number;
 }
 
+/**
+ * Allowed fulfillment transitions. Terminal states map to an empty list.
+ */
+export const FULFILLMENT_TRANSITIONS: Record<FulfillmentStatus, FulfillmentStatus[]> = {
+  unfulfilled: ["processing", "cancelled"],
+  processing: ["packed", "cancelled"],
+  packed: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+// Orders on hold can't move through fulfillment (other than being cancelled) until released
+export type HoldStatus = "on_hold" | "released";
+
+// Amount the gateway reported for a payment that differs from the order total, in ringgit
+export interface AmountMismatch {
+  expected: number;
+  paid: number;
+  detectedAt: Timestamp;
+}
+
+export const HOLD_STATUS_LABELS: Record<HoldStatus, string> = {
+  on_hold: "On Hold",
+  released: "Released",
+};
+
+export const COURIERS = [
+  "J&T Express",
+  "Pos Laju",
+  "Ninja Van",
+  "DHL eCommerce",
+  "City-Link Express",
+  "GDEX",
+  "Lalamove",
+  "Other",
+] as const;
+
+export type OrderChannel = "online" | "phone" | "walk_in" | "whatsapp";
+
+export const ORDER_CHANNEL_LABELS: Record<OrderChannel, string> = {
+  online: "Online Store",
+  phone: "Phone",
+  walk_in: "Walk-in",
+  whatsapp: "WhatsApp",
+};
+
+// Orders paid through a payment link record the provider that issued it
+export type PaymentMethod = PaymentProviderId | "cash" | "bank_transfer";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  toyyibpay: "ToyyibPay",
+  mock: "Mock gateway",
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+};
+
+/**
+ * Order keyed in by staff for a sale made outside the storefront
+ */
+export interface ManualOrderInput {
+  channel: Exclude<OrderChannel, "online">;
+  userId: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  items: Omit<OrderItem, "subtotal">[];
+  shippingFee: number;
+  discount: number;
+  // Cash and bank transfer orders are recorded as already paid; "gateway" orders get a payment
+  // link from the active payment provider
+  paymentMethod: "gateway" | "cash" | "bank_transfer";
+  notes?: string;
+  // Profile for a new customer, saved together with the order
+  newCustomer?: UserProfile;
+}
+
+export interface Shipment {
+  id: string;
+  courier: string;
+  trackingNumber: string;
+  shippedAt: Timestamp;
+  deliveredAt?: Timestamp;
+  deliveryProofUrl?: string;
+  notes?: string;
+}
+
 export interface Order {
   id?: string;
   orderId: string;
@@ -33,32 +178,212 @@ export interface Order {
   shippingFee: number;
   discount: number;
   totalAmount: number;
-  status: "pending" | "success" | "failed";
-  paymentStatus: "pending" | "success" | "failed";
+  status: PaymentStatus;
+  paymentStatus: PaymentStatus;
+  fulfillmentStatus?: FulfillmentStatus; // Missing on orders created before fulfillment tracking
+  shipments?: Shipment[]; // One entry per parcel
+  refunds?: Refund[];
+  refundedAmount?: number;
+  refundStatus?: RefundStatus;
   billCode?: string;
+  billCreatedAt?: Timestamp; // When the current bill was issued; bills expire a set time after this
+  billCodes?: string[]; // Earlier bills replaced by a new payment link; payments on them are still accepted
+  paymentProvider?: PaymentProviderId; // Provider that issued the bill; missing on older ToyyibPay orders
   transactionId?: string;
+  paidAt?: Timestamp; // When the payment succeeded; missing on orders paid before this was recorded
+  paymentEventKeys?: string[]; // Payment callbacks already applied, so gateway retries are skipped
   paymentUrl?: string;
+  invoiceNumber?: string; // Assigned the first time an invoice or packing slip is printed
+  channel?: OrderChannel; // Missing on storefront orders created before manual orders existed
+  paidAmount?: number; // Amount collected, recorded once items are edited after payment
+  balanceDue?: number; // Positive when the customer owes more, negative when a refund is due
+  returnedQuantities?: Record<string, number>; // Quantity under open or completed returns, keyed by item key
+  risk?: OrderRisk; // Missing until the order has been assessed
+  holdStatus?: HoldStatus; // Missing on orders that were never held
+  holdReason?: string;
+  amountMismatch?: AmountMismatch; // Set when a gateway payment didn't match the order total
+  stockStatus?: StockStatus; // Missing on orders created before stock reservation
+  stockReservations?: StockReservation[]; // Quantity held per product
+  paymentMethod?: PaymentMethod;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   notes?: string;
 }
 
+/**
+ * Resolve the fulfillment status of an order, treating legacy orders as unfulfilled
+ */
+export function getFulfillmentStatus(order: Pick<Order, "fulfillmentStatus">): FulfillmentStatus {
+  return order.fulfillmentStatus ?? "unfulfilled";
+}
+
+/**
+ * Get the fulfillment statuses an order can move to next
+ */
+export function getNextFulfillmentStatuses(
+  order: Pick<Order, "fulfillmentStatus" | "paymentStatus" | "holdStatus">,
+): FulfillmentStatus[] {
+  const allowed = FULFILLMENT_TRANSITIONS[getFulfillmentStatus(order)];
+  // Unpaid and held orders can only be cancelled, never packed or shipped
+  return order.paymentStatus === "success" && order.holdStatus !== "on_hold"
+    ? allowed
+    : allowed.filter((status) => status === "cancelled");
+}
+
+/**
+ * Paid orders that still need a parcel sent out
+ */
+export function isAwaitingShipment(order: Pick<Order, "paymentStatus" | "fulfillmentStatus" | "shipments">): boolean {
+  return (
+    order.paymentStatus === "success" &&
+    ["unfulfilled", "processing", "packed"].includes(getFulfillmentStatus(order)) &&
+    (order.shipments?.length ?? 0) === 0
+  );
+}
+
+export interface BulkOrderResult {
+  succeeded: string[];
+  failed: { orderId: string; error: string }[];
+}
+
+// Single counter document so invoice numbers stay sequential with no gaps or duplicates
+const INVOICE_COUNTER_PATH = ["counters", "invoices"] as const;
+const INVOICE_CHUNK_SIZE = 100;
+
+/**
+ * Format a sequential invoice number, e.g. INV-000042
+ */
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(6, "0")}`;
+}
+
+// Each order needs an update plus a history entry, and a batch holds at most 500 writes
+const BULK_CHUNK_SIZE = 200;
+
+/**
+ * Throw a readable error when an order can't move to the given fulfillment status
+ */
+function assertFulfillmentTransition(order: Order, nextStatus: FulfillmentStatus): void {
+  if (order.holdStatus === "on_hold" && nextStatus !== "cancelled") {
+    throw new Error(`Order is on hold: ${order.holdReason ?? "pending review"}. Release the hold first.`);
+  }
+  if (!getNextFulfillmentStatuses(order).includes(nextStatus)) {
+    throw new Error(
+      `Cannot change fulfillment status from ${FULFILLMENT_STATUS_LABELS[getFulfillmentStatus(order)]} to ${FULFILLMENT_STATUS_LABELS[nextStatus]}`,
+    );
+  }
+}
+
+interface OrderUpdate {
+  updates: Partial<Order>;
+  // History note describing the change, overriding the caller's context note
+  note?: string;
+  // Product stock to move in the same transaction
+  stock?: Omit<StockChange, "stockStatus">;
+}
+
 export class OrderService {
   private static readonly COLLECTION_NAME = "orders";
+  private static readonly PRODUCTS_COLLECTION = "products";
+
+  /**
+   * Fill in the acting admin from the signed-in user when the caller doesn't provide one
+   */
+  static resolveChangeContext(context?: Partial<OrderChangeContext>): OrderChangeContext {
+    const user = auth.currentUser;
+    return {
+      source: context?.source ?? "admin",
+      actorId: context?.actorId ?? user?.uid ?? null,
+      actorName: context?.actorName ?? user?.displayName ?? user?.email ?? undefined,
+      note: context?.note,
+    };
+  }
+
+  /**
+   * Apply an update to an order and append a history entry in the same transaction.
+   * The builder runs against the latest order data and may throw to abort the update.
+   */
+  private static async applyOrderUpdate(
+    orderId: string,
+    buildUpdate: (order: Order) => OrderUpdate,
+    context?: Partial<OrderChangeContext>,
+  ): Promise<void> {
+    const docRef = doc(db, this.COLLECTION_NAME, orderId);
+    const changeContext = this.resolveChangeContext(context);
+
+    await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(docRef);
+      if (!docSnap.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const order = docSnap.data() as Order;
+      const { updates, note, stock } = buildUpdate(order);
+      const stockWrites = stock ? await this.readStockUpdates(transaction, stock.deltas, stock.allowShortfall) : [];
+      const now = Timestamp.now();
+
+      stockWrites.forEach(({ ref, update }) => transaction.update(ref, { ...update, updatedAt: now }));
+      transaction.update(docRef, { ...updates, updatedAt: now });
+
+      const entry = buildHistoryEntry(diffOrderFields(order, updates), {
+        ...changeContext,
+        note: note ?? changeContext.note,
+      });
+      if (entry) {
+        transaction.set(doc(collection(docRef, ORDER_HISTORY_SUBCOLLECTION)), { ...entry, createdAt: now });
+      }
+    });
+  }
 
   /**
-   * Create a new order in Firestore
+   * Read the products affected by a stock change and work out their new levels.
+   * Must run before any write in the transaction; throws when stock would go negative.
+   */
+  static async readStockUpdates(
+    transaction: Transaction,
+    deltas: Record<string, StockDelta>,
+    allowShortfall: boolean = false,
+  ) {
+    const entries = Object.entries(deltas);
+    const snapshots = await Promise.all(
+      entries.map(([productId]) => transaction.get(doc(db, this.PRODUCTS_COLLECTION, productId))),
+    );
+
+    return entries.flatMap(([, delta], index) => {
+      const product = snapshots[index].data() as StockLevel | undefined;
+      if (!isStockTracked(product)) return [];
+      return [{ ref: snapshots[index].ref, update: applyStockDelta(product, delta, allowShortfall) }];
+    });
+  }
+
+  /**
+   * Create a new order in Firestore, reserving stock for its items in the same transaction.
+   * Orders that arrive already paid take the stock straight away.
    */
   static async createOrder(orderData: Omit<Order, "id" | "createdAt" | "updatedAt">): Promise<string> {
     try {
       const now = Timestamp.now();
+      const stockReservations = getStockReservations(orderData.items);
+      const isPaid = orderData.paymentStatus === "success";
       const order: Omit<Order, "id"> = {
         ...orderData,
+        fulfillmentStatus: orderData.fulfillmentStatus ?? "unfulfilled",
+        stockStatus: isPaid ? "committed" : "reserved",
+        ...(isPaid && { paidAt: now }),
+        stockReservations,
         createdAt: now,
         updatedAt: now,
       };
 
-      const docRef = await addDoc(collection(db, this.COLLECTION_NAME), order);
+      const docRef = doc(collection(db, this.COLLECTION_NAME));
+      await runTransaction(db, async (transaction) => {
+        const stockWrites = await this.readStockUpdates(
+          transaction,
+          getStockDeltas(stockReservations, isPaid ? "sell" : "reserve"),
+        );
+        stockWrites.forEach(({ ref, update }) => transaction.update(ref, { ...update, updatedAt: now }));
+        transaction.set(docRef, order);
+      });
       return docRef.id;
     } catch (error) {
       console.error("Error creating order:", error);
@@ -69,10 +394,153 @@ export class OrderService {
           stack: error.stack,
         });
       }
-      throw new Error("Failed to create order");
+      throw error instanceof OutOfStockError ? error : new Error("Failed to create order");
     }
   }
 
+  /**
+   * Create an order on behalf of a customer from the admin. Paid orders are recorded as paid
+   * straight away; ToyyibPay orders stay pending until the customer pays the bill link. A new
+   * customer's profile is only saved if the order is.
+   */
+  static async createManualOrder(input: ManualOrderInput): Promise<{ id: string; orderId: string }> {
+    if (input.items.length === 0) {
+      throw new Error("Add at least one item");
+    }
+    if (input.items.some((item) => item.quantity <= 0 || item.price < 0)) {
+      throw new Error("Each item needs a quantity of at least 1 and a valid price");
+    }
+    if (!input.customerName.trim() || !input.customerEmail.trim()) {
+      throw new Error("Customer name and email are required");
+    }
+
+    const items: OrderItem[] = input.items.map((item) => ({
+      ...item,
+      size: item.size ?? "",
+      subtotal: roundCurrency(item.price * item.quantity),
+    }));
+    const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.subtotal, 0));
+    const shippingFee = roundCurrency(Math.max(0, input.shippingFee || 0));
+    const discount = roundCurrency(Math.min(Math.max(0, input.discount || 0), subtotal + shippingFee));
+    const totalAmount = roundCurrency(subtotal + shippingFee - discount);
+    // Gateway orders are paid later through a payment link, which records the provider as the method
+    const paidBy = input.paymentMethod === "gateway" ? null : input.paymentMethod;
+    const isPaid = paidBy !== null;
+    if (totalAmount <= 0 && !isPaid) {
+      throw new Error("A payment link needs an amount above zero");
+    }
+
+    const orderId = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0")}`;
+    const now = Timestamp.now();
+    const order: Omit<Order, "id"> = {
+      orderId,
+      userId: input.userId,
+      customerName: input.customerName.trim(),
+      customerEmail: input.customerEmail.trim(),
+      customerPhone: input.customerPhone.trim(),
+      items,
+      subtotal,
+      shippingFee,
+      discount,
+      totalAmount,
+      status: isPaid ? "success" : "pending",
+      paymentStatus: isPaid ? "success" : "pending",
+      fulfillmentStatus: "unfulfilled",
+      channel: input.channel,
+      ...(paidBy && { paymentMethod: paidBy }),
+      stockStatus: isPaid ? "committed" : "reserved",
+      stockReservations: getStockReservations(items),
+      createdAt: now,
+      updatedAt: now,
+      ...(input.notes?.trim() && { notes: input.notes.trim() }),
+    };
+
+    const context = this.resolveChangeContext({
+      note: `Created manually (${ORDER_CHANNEL_LABELS[input.channel]})${
+        paidBy ? `, paid by ${PAYMENT_METHOD_LABELS[paidBy].toLowerCase()}` : ""
+      }`,
+    });
+
+    try {
+      const orderRef = doc(collection(db, this.COLLECTION_NAME));
+      await runTransaction(db, async (transaction) => {
+        const stockWrites = await this.readStockUpdates(
+          transaction,
+          getStockDeltas(order.stockReservations ?? [], isPaid ? "sell" : "reserve"),
+        );
+        stockWrites.forEach(({ ref, update }) => transaction.update(ref, { ...update, updatedAt: now }));
+        transaction.set(orderRef, order);
+        transaction.set(doc(collection(orderRef, ORDER_HISTORY_SUBCOLLECTION)), {
+          ...buildHistoryEntry([], context),
+          createdAt: now,
+        });
+        if (input.newCustomer) {
+          transaction.set(doc(db, "users", input.newCustomer.uid), input.newCustomer);
+        }
+      });
+
+      return { id: orderRef.id, orderId };
+    } catch (error) {
+      console.error("Error creating manual order:", error);
+      throw error instanceof OutOfStockError ? error : new Error("Failed to create order");
+    }
+  }
+
+  /**
+   * Create a bill for an unpaid order with the active payment provider and save the bill code and
+   * payment link on it
+   */
+  static async createPaymentLink(order: Order): Promise<string> {
+    if (!order.id) {
+      throw new Error("Order not found");
+    }
+    if (order.paymentStatus === "success") {
+      throw new Error("This order is already paid");
+    }
+
+    const response = await fetch("/api/payment/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        orderId: order.orderId,
+        amount: order.totalAmount,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        customerPhone: order.customerPhone,
+        items: order.items.map(({ name, price, quantity, size }) => ({ name, price, quantity, size })),
+      }),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || "Failed to create payment link");
+    }
+
+    const { billCode, paymentUrl, provider } = result.data as {
+      billCode: string;
+      paymentUrl: string;
+      provider: PaymentProviderId;
+    };
+    await this.applyOrderUpdate(order.id, (latest) => ({
+      updates: {
+        billCode,
+        billCreatedAt: Timestamp.now(),
+        // The customer can still pay the bill this one replaces, so its payment must be accepted
+        ...(latest.billCode && { billCodes: [...(latest.billCodes ?? []), latest.billCode] }),
+        paymentUrl,
+        paymentProvider: provider,
+        paymentMethod: provider,
+      },
+      note: `${PAYMENT_PROVIDER_LABELS[provider]} payment link created${
+        latest.billCode ? `, replacing bill ${latest.billCode}` : ""
+      }`,
+    }));
+
+    return paymentUrl;
+  }
+
   /**
    * Get order by ID
    */
@@ -125,19 +593,391 @@ export class OrderService {
   static async updateOrderStatus(
     orderId: string,
     updates: Partial<Pick<Order, "status" | "paymentStatus" | "billCode" | "transactionId" | "notes">>,
+    context?: Partial<OrderChangeContext>,
   ): Promise<void> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, orderId);
-      await updateDoc(docRef, {
-        ...updates,
-        updatedAt: Timestamp.now(),
-      });
+      await this.applyOrderUpdate(orderId, () => ({ updates }), { note: updates.notes, ...context });
     } catch (error) {
       console.error("Error updating order:", error);
       throw new Error("Failed to update order");
     }
   }
 
+  /**
+   * Move an order to the next fulfillment status, enforcing the allowed transitions
+   */
+  static async updateFulfillmentStatus(
+    orderId: string,
+    nextStatus: FulfillmentStatus,
+    context?: Partial<OrderChangeContext>,
+  ): Promise<void> {
+    await this.applyOrderUpdate(
+      orderId,
+      (order) => {
+        assertFulfillmentTransition(order, nextStatus);
+
+        // Cancelling gives back any stock the order was holding
+        const stock = nextStatus === "cancelled" ? getReleaseStockChange(order) : null;
+        return {
+          updates: { fulfillmentStatus: nextStatus, ...(stock && { stockStatus: stock.stockStatus }) },
+          stock: stock ?? undefined,
+        };
+      },
+      context,
+    );
+  }
+
+  /**
+   * Move many orders to the same fulfillment status using batched writes.
+   * Orders that can't make the transition are reported back instead of failing the whole batch.
+   */
+  static async bulkUpdateFulfillmentStatus(
+    orderIds: string[],
+    nextStatus: FulfillmentStatus,
+    onProgress?: (processed: number, total: number) => void,
+  ): Promise<BulkOrderResult> {
+    if (nextStatus === "cancelled") {
+      // Cancelling moves stock, which needs a transaction per order rather than a batched write
+      const result: BulkOrderResult = { succeeded: [], failed: [] };
+      for (const [index, orderId] of orderIds.entries()) {
+        try {
+          await this.updateFulfillmentStatus(orderId, nextStatus);
+          result.succeeded.push(orderId);
+        } catch (error) {
+          result.failed.push({ orderId, error: error instanceof Error ? error.message : "Failed to cancel" });
+        }
+        onProgress?.(index + 1, orderIds.length);
+      }
+      return result;
+    }
+
+    const context = this.resolveChangeContext();
+
+    return this.runInBatches(orderIds, onProgress, async (chunk, batch, result) => {
+      const snapshots = await Promise.all(chunk.map((id) => getDoc(doc(db, this.COLLECTION_NAME, id))));
+      const now = Timestamp.now();
+
+      snapshots.forEach((snapshot) => {
+        if (!snapshot.exists()) {
+          result.failed.push({ orderId: snapshot.id, error: "Order not found" });
+          return;
+        }
+
+        const order = snapshot.data() as Order;
+        try {
+          assertFulfillmentTransition(order, nextStatus);
+        } catch (error) {
+          result.failed.push({
+            orderId: snapshot.id,
+            error: error instanceof Error ? error.message : "Invalid status change",
+          });
+          return;
+        }
+
+        const updates: Partial<Order> = { fulfillmentStatus: nextStatus };
+        batch.update(snapshot.ref, { ...updates, updatedAt: now });
+
+        const entry = buildHistoryEntry(diffOrderFields(order, updates), context);
+        if (entry) {
+          batch.set(doc(collection(snapshot.ref, ORDER_HISTORY_SUBCOLLECTION)), { ...entry, createdAt: now });
+        }
+        result.succeeded.push(snapshot.id);
+      });
+    });
+  }
+
+  /**
+   * Add the same internal note to the history of many orders using batched writes
+   */
+  static async bulkAddNote(
+    orderIds: string[],
+    note: string,
+    onProgress?: (processed: number, total: number) => void,
+  ): Promise<BulkOrderResult> {
+    const trimmedNote = note.trim();
+    if (!trimmedNote) {
+      throw new Error("Note cannot be empty");
+    }
+
+    const context = this.resolveChangeContext({ note: trimmedNote });
+
+    return this.runInBatches(orderIds, onProgress, async (chunk, batch, result) => {
+      const snapshots = await Promise.all(chunk.map((id) => getDoc(doc(db, this.COLLECTION_NAME, id))));
+      const now = Timestamp.now();
+
+      snapshots.forEach((snapshot) => {
+        // A history entry written under a missing order would create an orphaned subcollection
+        if (!snapshot.exists()) {
+          result.failed.push({ orderId: snapshot.id, error: "Order not found" });
+          return;
+        }
+
+        batch.set(doc(collection(snapshot.ref, ORDER_HISTORY_SUBCOLLECTION)), {
+          ...buildHistoryEntry([], context),
+          createdAt: now,
+        });
+        result.succeeded.push(snapshot.id);
+      });
+    });
+  }
+
+  /**
+   * Split order IDs into chunks that fit a Firestore write batch (two writes per order)
+   * and commit them one after another, reporting progress between chunks.
+   */
+  private static async runInBatches(
+    orderIds: string[],
+    onProgress: ((processed: number, total: number) => void) | undefined,
+    prepare: (chunk: string[], batch: WriteBatch, result: BulkOrderResult) => Promise<void>,
+  ): Promise<BulkOrderResult> {
+    const result: BulkOrderResult = { succeeded: [], failed: [] };
+
+    for (let i = 0; i < orderIds.length; i += BULK_CHUNK_SIZE) {
+      const chunk = orderIds.slice(i, i + BULK_CHUNK_SIZE);
+      const chunkResult: BulkOrderResult = { succeeded: [], failed: [] };
+      const batch = writeBatch(db);
+
+      try {
+        await prepare(chunk, batch, chunkResult);
+        await batch.commit();
+        result.succeeded.push(...chunkResult.succeeded);
+        result.failed.push(...chunkResult.failed);
+      } catch (error) {
+        console.error("Error committing bulk order batch:", error);
+        // The whole batch failed, so nothing in this chunk was written
+        const message = error instanceof Error ? error.message : "Batch write failed";
+        result.failed.push(
+          ...chunkResult.failed,
+          ...chunk
+            .filter((id) => !chunkResult.failed.some((failure) => failure.orderId === id))
+            .map((orderId) => ({ orderId, error: message })),
+        );
+      }
+
+      onProgress?.(Math.min(i + BULK_CHUNK_SIZE, orderIds.length), orderIds.length);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a shipped parcel. The first shipment of a packed order moves it to shipped.
+   */
+  static async addShipment(
+    orderId: string,
+    shipmentData: Omit<Shipment, "id" | "shippedAt"> & { shippedAt?: Date },
+  ): Promise<void> {
+    const { shippedAt, ...details } = shipmentData;
+    const shipment: Shipment = {
+      ...details,
+      id: crypto.randomUUID(),
+      shippedAt: shippedAt ? Timestamp.fromDate(shippedAt) : Timestamp.now(),
+    };
+
+    // Firestore rejects undefined values inside arrays
+    const cleanedShipment = Object.fromEntries(
+      Object.entries(shipment).filter(([, value]) => value !== undefined && value !== ""),
+    ) as unknown as Shipment;
+
+    await this.applyOrderUpdate(orderId, (order) => {
+      if (getFulfillmentStatus(order) === "cancelled") {
+        throw new Error("Cannot add a shipment to a cancelled order");
+      }
+      if (order.holdStatus === "on_hold") {
+        throw new Error("Cannot ship an order that is on hold");
+      }
+
+      return {
+        updates: {
+          shipments: [...(order.shipments ?? []), cleanedShipment],
+          ...(getNextFulfillmentStatuses(order).includes("shipped") && { fulfillmentStatus: "shipped" as const }),
+        },
+        note: `Shipment added: ${shipment.courier} ${shipment.trackingNumber}`,
+      };
+    });
+  }
+
+  /**
+   * Mark a shipment as delivered, optionally with a proof of delivery link.
+   * Once every parcel is delivered the order moves to delivered.
+   */
+  static async markShipmentDelivered(orderId: string, shipmentId: string, deliveryProofUrl?: string): Promise<void> {
+    await this.applyOrderUpdate(orderId, (order) => {
+      const shipments = (order.shipments ?? []).map((shipment) =>
+        shipment.id === shipmentId
+          ? { ...shipment, deliveredAt: Timestamp.now(), ...(deliveryProofUrl && { deliveryProofUrl }) }
+          : shipment,
+      );
+      const allDelivered = shipments.every((shipment) => shipment.deliveredAt);
+
+      return {
+        updates: {
+          shipments,
+          ...(allDelivered &&
+            getNextFulfillmentStatuses(order).includes("delivered") && { fulfillmentStatus: "delivered" as const }),
+        },
+        note: "Shipment marked as delivered",
+      };
+    });
+  }
+
+  /**
+   * Remove a shipment recorded by mistake
+   */
+  static async removeShipment(orderId: string, shipmentId: string): Promise<void> {
+    await this.applyOrderUpdate(orderId, (order) => {
+      const shipment = order.shipments?.find((s) => s.id === shipmentId);
+      return {
+        updates: { shipments: (order.shipments ?? []).filter((s) => s.id !== shipmentId) },
+        note: shipment ? `Shipment removed: ${shipment.courier} ${shipment.trackingNumber}` : undefined,
+      };
+    });
+  }
+
+  /**
+   * Change an order's line items before it ships. Totals are recalculated and, for paid orders,
+   * the difference is kept as a balance due (or refund due) until it is settled.
+   */
+  static async updateOrderItems(orderId: string, items: OrderItemInput[], reason: string): Promise<void> {
+    const trimmedReason = reason.trim();
+    if (!trimmedReason) {
+      throw new Error("A reason for the change is required");
+    }
+
+    await this.applyOrderUpdate(orderId, (order) => {
+      const blocker = getOrderEditBlocker(order);
+      if (blocker) {
+        throw new Error(blocker);
+      }
+
+      const edit = calculateOrderEdit(order, items);
+      const summary = describeItemChanges(order.items, edit.items);
+      if (!summary) {
+        throw new Error("No changes to save");
+      }
+
+      const isPaid = order.paymentStatus === "success";
+      const stockReservations = getStockReservations(edit.items);
+      const holdsStock = order.stockStatus === "reserved" || order.stockStatus === "committed";
+      const updates: Partial<Order> = {
+        items: edit.items,
+        ...(holdsStock && { stockReservations }),
+        subtotal: edit.subtotal,
+        totalAmount: edit.totalAmount,
+        ...(isPaid && { paidAmount: getPaidAmount(order), balanceDue: edit.balanceDue }),
+      };
+
+      const notes = [
+        `Items changed: ${summary}`,
+        `Total RM${order.totalAmount.toFixed(2)} → RM${edit.totalAmount.toFixed(2)}`,
+      ];
+      if (edit.balanceDue > 0) notes.push(`customer owes RM${edit.balanceDue.toFixed(2)}`);
+      if (edit.balanceDue < 0) notes.push(`refund due RM${Math.abs(edit.balanceDue).toFixed(2)}`);
+      // An unpaid bill still carries the old amount, so a new payment link is needed. The old bill
+      // can't be withdrawn; a payment on it is recorded and holds the order for the amount mismatch.
+      if (!isPaid && order.paymentUrl && edit.totalAmount !== order.totalAmount) {
+        updates.paymentUrl = "";
+        notes.push("payment link cleared");
+      }
+
+      return {
+        updates,
+        note: `${notes.join("; ")}. Reason: ${trimmedReason}`,
+        stock: holdsStock
+          ? {
+              deltas: getReservationChangeDeltas(
+                order.stockReservations ?? [],
+                stockReservations,
+                order.stockStatus as StockStatus,
+              ),
+            }
+          : undefined,
+      };
+    });
+  }
+
+  /**
+   * Mark the balance left by an item edit as collected from (or paid back to) the customer
+   */
+  static async settleBalance(orderId: string, note?: string): Promise<void> {
+    await this.applyOrderUpdate(orderId, (order) => {
+      const balance = order.balanceDue ?? 0;
+      if (balance === 0) {
+        throw new Error("This order has no outstanding balance");
+      }
+
+      return {
+        updates: { paidAmount: order.totalAmount, balanceDue: 0 },
+        note: `${balance > 0 ? "Collected" : "Refunded"} balance of RM${Math.abs(balance).toFixed(2)}${
+          note?.trim() ? `: ${note.trim()}` : ""
+        }`,
+      };
+    });
+  }
+
+  /**
+   * Put an order on hold so it can't be fulfilled until it's reviewed
+   */
+  static async placeOrderHold(orderId: string, reason: string): Promise<void> {
+    const trimmedReason = reason.trim();
+    if (!trimmedReason) {
+      throw new Error("A reason for the hold is required");
+    }
+
+    await this.applyOrderUpdate(orderId, (order) => {
+      if (order.holdStatus === "on_hold") {
+        throw new Error("Order is already on hold");
+      }
+      if (!["unfulfilled", "processing", "packed"].includes(getFulfillmentStatus(order))) {
+        throw new Error("Only orders that haven't shipped can be put on hold");
+      }
+
+      return {
+        updates: { holdStatus: "on_hold", holdReason: trimmedReason },
+        note: `Placed on hold: ${trimmedReason}`,
+      };
+    });
+  }
+
+  /**
+   * Release a held order after review so fulfillment can continue
+   */
+  static async releaseOrderHold(orderId: string, reviewNote: string): Promise<void> {
+    const trimmedNote = reviewNote.trim();
+    if (!trimmedNote) {
+      throw new Error("A review note is required to release the hold");
+    }
+
+    await this.applyOrderUpdate(orderId, (order) => {
+      if (order.holdStatus !== "on_hold") {
+        throw new Error("Order is not on hold");
+      }
+
+      return { updates: { holdStatus: "released" }, note: `Hold released after review: ${trimmedNote}` };
+    });
+  }
+
+  /**
+   * Record a full or per-item partial refund against a paid order
+   */
+  static async issueRefund(orderId: string, request: RefundRequest): Promise<void> {
+    const reason = request.reason.trim();
+    if (!reason) {
+      throw new Error("A refund reason is required");
+    }
+
+    const context = this.resolveChangeContext();
+
+    await this.applyOrderUpdate(
+      orderId,
+      (order) => {
+        const { refund, updates } = buildRefundUpdate(order, { ...request, reason }, context);
+        return { updates, note: `Refunded RM${refund.amount.toFixed(2)}: ${reason}` };
+      },
+      context,
+    );
+  }
+
   /**
    * Update order payment status
    */
@@ -149,12 +989,12 @@ export class OrderService {
       billCode?: string;
       notes?: string;
     },
+    context?: Partial<OrderChangeContext>,
   ): Promise<void> {
     try {
       const updates: Partial<Order> = {
         paymentStatus: paymentData.status,
         status: paymentData.status === "success" ? "success" : "failed",
-        updatedAt: Timestamp.now(),
       };
 
       if (paymentData.transactionId) {
@@ -169,14 +1009,250 @@ export class OrderService {
         updates.notes = paymentData.notes;
       }
 
-      const docRef = doc(db, this.COLLECTION_NAME, orderId);
-      await updateDoc(docRef, updates);
+      await this.applyOrderUpdate(
+        orderId,
+        (order) => {
+          const stock = getPaymentStockChange(order, paymentData.status);
+          const reopen = paymentData.status === "success" && order.fulfillmentStatus === "cancelled";
+          return {
+            updates: {
+              ...updates,
+              ...(stock && getStockChangeUpdates(stock)),
+              ...(paymentData.status === "success" && order.paymentStatus !== "success" && { paidAt: Timestamp.now() }),
+              // A payment on a cancelled or expired order reopens it for fulfillment, and orders from
+              // before fulfillment tracking get the field so fulfillment filters find them
+              ...((reopen || !order.fulfillmentStatus) && { fulfillmentStatus: "unfulfilled" as const }),
+            },
+            stock: stock ?? undefined,
+          };
+        },
+        { note: paymentData.notes, ...context },
+      );
     } catch (error) {
       console.error("Error updating order payment status:", error);
       throw new Error("Failed to update order payment status");
     }
   }
 
+  /**
+   * Make sure each paid order has an invoice number, giving the next numbers in sequence
+   * to orders that don't have one yet. Returns the invoice number per order document ID.
+   */
+  static async assignInvoiceNumbers(orderIds: string[]): Promise<Record<string, string>> {
+    const invoiceNumbers: Record<string, string> = {};
+    const counterRef = doc(db, ...INVOICE_COUNTER_PATH);
+
+    for (let i = 0; i < orderIds.length; i += INVOICE_CHUNK_SIZE) {
+      const chunk = orderIds.slice(i, i + INVOICE_CHUNK_SIZE);
+
+      await runTransaction(db, async (transaction) => {
+        // Transactions need every read before the first write
+        const counterSnap = await transaction.get(counterRef);
+        const orderSnaps = await Promise.all(chunk.map((id) => transaction.get(doc(db, this.COLLECTION_NAME, id))));
+
+        let lastNumber: number = counterSnap.exists() ? counterSnap.data().lastNumber : 0;
+        const now = Timestamp.now();
+
+        orderSnaps.forEach((snapshot) => {
+          if (!snapshot.exists()) {
+            throw new Error("Order not found");
+          }
+
+          const order = snapshot.data() as Order;
+          if (order.invoiceNumber) {
+            invoiceNumbers[snapshot.id] = order.invoiceNumber;
+            return;
+          }
+          if (order.paymentStatus !== "success") {
+            throw new Error(`Order ${order.orderId} is not paid yet`);
+          }
+
+          lastNumber += 1;
+          const invoiceNumber = formatInvoiceNumber(lastNumber);
+          transaction.update(snapshot.ref, { invoiceNumber, updatedAt: now });
+          invoiceNumbers[snapshot.id] = invoiceNumber;
+        });
+
+        transaction.set(counterRef, { lastNumber, updatedAt: now });
+      });
+    }
+
+    return invoiceNumbers;
+  }
+
+  /**
+   * Get the status history of an order, oldest first
+   */
+  static async getOrderHistory(orderId: string): Promise<OrderHistoryEntry[]> {
+    try {
+      const q = query(
+        collection(db, this.COLLECTION_NAME, orderId, ORDER_HISTORY_SUBCOLLECTION),
+        orderBy("createdAt", "asc"),
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OrderHistoryEntry);
+    } catch (error) {
+      console.error("Error getting order history:", error);
+      throw new Error("Failed to get order history");
+    }
+  }
+
+  /**
+   * Add an internal staff comment to an order, optionally mentioning other admins
+   */
+  static async addOrderComment(orderId: string, body: string, mentions: CommentMention[] = []): Promise<string> {
+    const text = body.trim();
+    if (!text) {
+      throw new Error("Comment cannot be empty");
+    }
+
+    const { actorId, actorName } = this.resolveChangeContext();
+    const resolvedMentions = resolveMentions(text, mentions);
+    const comment: Omit<OrderComment, "id"> = {
+      body: text,
+      authorId: actorId ?? null,
+      authorName: actorName || "Admin",
+      mentions: resolvedMentions,
+      mentionIds: resolvedMentions.map((mention) => mention.uid),
+      searchTokens: buildCommentSearchTokens(text),
+      createdAt: Timestamp.now(),
+    };
+
+    try {
+      const docRef = await addDoc(collection(db, this.COLLECTION_NAME, orderId, ORDER_COMMENTS_SUBCOLLECTION), comment);
+      return docRef.id;
+    } catch (error) {
+      console.error("Error adding order comment:", error);
+      throw new Error("Failed to add comment");
+    }
+  }
+
+  /**
+   * Get the internal comments on an order, oldest first
+   */
+  static async getOrderComments(orderId: string): Promise<OrderComment[]> {
+    try {
+      const q = query(
+        collection(db, this.COLLECTION_NAME, orderId, ORDER_COMMENTS_SUBCOLLECTION),
+        orderBy("createdAt", "asc"),
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OrderComment);
+    } catch (error) {
+      console.error("Error getting order comments:", error);
+      throw new Error("Failed to get order comments");
+    }
+  }
+
+  /**
+   * Find orders by a reference from a support ticket: order ID, ToyyibPay transaction ID or bill code,
+   * customer email or phone. When nothing matches exactly, falls back to orders containing a product
+   * whose name includes the term, among the newest PRODUCT_LOOKUP_SCAN_LIMIT orders. Results are
+   * newest first.
+   */
+  static async lookupOrders(term: string, maxResults: number = 20): Promise<OrderLookupMatch[]> {
+    const value = term.trim();
+    if (!value) return [];
+
+    try {
+      const ordersRef = collection(db, this.COLLECTION_NAME);
+      const lookups: [OrderLookupField, ReturnType<typeof where>][] = [
+        ["orderId", where("orderId", "==", value)],
+        ["transactionId", where("transactionId", "==", value)],
+        ["billCode", where("billCode", "==", value)],
+      ];
+      if (value.includes("@")) {
+        lookups.push(["email", where("customerEmail", "in", Array.from(new Set([value, value.toLowerCase()])))]);
+      }
+      const phone = normalizeMalaysianPhone(value);
+      if (phone) {
+        lookups.push(["phone", where("customerPhone", "in", getPhoneVariants(phone))]);
+      }
+
+      const snapshots = await Promise.all(
+        lookups.map(([, constraint]) => getDocs(query(ordersRef, constraint, limit(maxResults)))),
+      );
+
+      // An order can match on more than one field; keep the first
+      const matches = new Map<string, OrderLookupMatch>();
+      snapshots.forEach((snapshot, index) => {
+        snapshot.docs.forEach((doc) => {
+          if (!matches.has(doc.id)) {
+            matches.set(doc.id, { order: { ...(doc.data() as Order), id: doc.id }, matchedOn: lookups[index][0] });
+          }
+        });
+      });
+
+      if (matches.size === 0 && value.length >= 3) {
+        // Item names can't be queried, so scan recent orders like the product filter does
+        const snapshot = await getDocs(
+          query(ordersRef, orderBy("createdAt", "desc"), limit(PRODUCT_LOOKUP_SCAN_LIMIT)),
+        );
+        snapshot.docs
+          .map((doc) => ({ ...(doc.data() as Order), id: doc.id }))
+          .filter((order) => matchesInMemoryFilters(order, { product: value }))
+          .slice(0, maxResults)
+          .forEach((order) => matches.set(order.id, { order, matchedOn: "product" }));
+      }
+
+      return Array.from(matches.values())
+        .sort((a, b) => b.order.createdAt.toMillis() - a.order.createdAt.toMillis())
+        .slice(0, maxResults);
+    } catch (error) {
+      console.error("Error looking up orders:", error);
+      throw new Error("Failed to look up orders");
+    }
+  }
+
+  /**
+   * Search comments across all orders. Firestore matches the first word of the term and the
+   * rest are checked in memory, so every word has to appear in the comment.
+   */
+  static async searchOrderComments(term: string, maxResults: number = 50): Promise<OrderCommentMatch[]> {
+    const [firstWord] = tokenizeCommentText(term);
+    if (!firstWord) return [];
+
+    return this.queryComments(where("searchTokens", "array-contains", firstWord), maxResults, (comment) =>
+      commentMatchesTerm(comment, term),
+    );
+  }
+
+  /**
+   * Get comments across all orders that mention the given admin, newest first
+   */
+  static async getCommentsMentioning(userId: string, maxResults: number = 50): Promise<OrderCommentMatch[]> {
+    return this.queryComments(where("mentionIds", "array-contains", userId), maxResults);
+  }
+
+  private static async queryComments(
+    constraint: ReturnType<typeof where>,
+    maxResults: number,
+    matches: (comment: OrderComment) => boolean = () => true,
+  ): Promise<OrderCommentMatch[]> {
+    try {
+      const querySnapshot = await getDocs(
+        query(collectionGroup(db, ORDER_COMMENTS_SUBCOLLECTION), constraint, limit(maxResults)),
+      );
+
+      return (
+        querySnapshot.docs
+          // Other collections could also have a "comments" subcollection
+          .filter((doc) => doc.ref.parent.parent?.parent.id === this.COLLECTION_NAME)
+          .map((doc) => ({
+            orderId: doc.ref.parent.parent!.id,
+            comment: { id: doc.id, ...doc.data() } as OrderComment,
+          }))
+          .filter((match) => matches(match.comment))
+          .sort((a, b) => b.comment.createdAt.toMillis() - a.comment.createdAt.toMillis())
+      );
+    } catch (error) {
+      console.error("Error searching order comments:", error);
+      throw new Error("Failed to search comments");
+    }
+  }
+
   /**
    * Get orders by user ID
    */
@@ -0,0 +1,44 @@
+import { PaymentProviderId } from "@/lib/paymentProvider";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Payment event log. Every callback that reaches /api/payment/callback is stored in the
+ * `paymentEvents` collection with its raw payload and what processing did with it.
+ */
+
+export const PAYMENT_EVENTS_COLLECTION = "paymentEvents";
+
+export type PaymentEventResult = "received" | "processed" | "duplicate" | "ignored" | "rejected" | "failed";
+
+export const PAYMENT_EVENT_RESULT_LABELS: Record<PaymentEventResult, string> = {
+  received: "Received",
+  processed: "Processed",
+  duplicate: "Duplicate",
+  ignored: "Ignored",
+  rejected: "Rejected",
+  failed: "Failed",
+};
+
+export interface PaymentEvent {
+  id?: string;
+  provider: PaymentProviderId;
+  dedupeKey: string;
+  orderId: string | null;
+  billCode: string | null;
+  refno: string | null;
+  status: string | null;
+  payload: Record<string, string>;
+  result: PaymentEventResult;
+  message?: string;
+  receivedAt: Timestamp;
+  processedAt?: Timestamp;
+}
+
+/**
+ * Key identifying a ToyyibPay-format callback across gateway retries. Retries repeat the same
+ * reference number, bill code and status, while a new attempt on the same bill gets a new
+ * reference number.
+ */
+export function getPaymentEventKey(payload: Record<string, string>): string {
+  return [payload.refno, payload.billcode, payload.status].map((part) => part ?? "").join(":");
+}
@@ -0,0 +1,45 @@
+import { mockPaymentProvider } from "@/lib/mockPayment";
+import { Order } from "@/lib/orderService";
+import { PaymentProvider, PaymentProviderError, PaymentProviderId } from "@/lib/paymentProvider";
+import { toyyibPayProvider } from "@/lib/toyyibpay";
+
+/**
+ * Registry of payment providers. `PAYMENT_PROVIDER` picks the one new bills are created with
+ * ("toyyibpay" by default); existing bills stay with the provider recorded on their order.
+ */
+
+const PAYMENT_PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  toyyibpay: toyyibPayProvider,
+  mock: mockPaymentProvider,
+};
+
+/**
+ * A provider by ID, or null for an unknown ID
+ */
+export function findPaymentProvider(id: string): PaymentProvider | null {
+  // Own keys only, so IDs like "toString" or "__proto__" are unknown rather than inherited
+  return Object.hasOwn(PAYMENT_PROVIDERS, id) ? PAYMENT_PROVIDERS[id as PaymentProviderId] : null;
+}
+
+/**
+ * The provider that issued an order's bill. Orders from before providers were recorded used ToyyibPay.
+ */
+export function getOrderPaymentProvider(order: Pick<Order, "paymentProvider">): PaymentProvider {
+  return PAYMENT_PROVIDERS[order.paymentProvider ?? "toyyibpay"];
+}
+
+/**
+ * The provider new bills are created with. Throws when `PAYMENT_PROVIDER` is invalid, or names
+ * the mock provider in a production build.
+ */
+export function getActivePaymentProvider(): PaymentProvider {
+  const id = process.env.PAYMENT_PROVIDER || "toyyibpay";
+  const provider = findPaymentProvider(id);
+  if (!provider) {
+    throw new PaymentProviderError(`PAYMENT_PROVIDER must be one of ${Object.keys(PAYMENT_PROVIDERS).join(", ")}`);
+  }
+  if (provider.id === "mock" && process.env.NODE_ENV === "production") {
+    throw new PaymentProviderError("The mock payment provider can't be used in production builds");
+  }
+  return provider;
+}
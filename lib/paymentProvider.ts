@@ -0,0 +1,96 @@
+import { GatewayPayment } from "@/lib/paymentReconciliation";
+
+/**
+ * Payment provider interface. Checkout, callbacks, expiry and reconciliation go through a provider
+ * rather than a specific gateway, so another gateway can be added by implementing it and
+ * registering it in lib/paymentGateway.
+ */
+
+export type PaymentProviderId = "toyyibpay" | "mock";
+
+export const PAYMENT_PROVIDER_LABELS: Record<PaymentProviderId, string> = {
+  toyyibpay: "ToyyibPay",
+  mock: "Mock gateway",
+};
+
+export interface PaymentRequest {
+  orderId: string;
+  amount: number; // Ringgit
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  items: {
+    name: string;
+    price: number;
+    quantity: number;
+    size?: string;
+  }[];
+}
+
+export interface CreatedBill {
+  billCode: string;
+  paymentUrl: string;
+}
+
+// Where bills are created and whether they take real money
+export interface PaymentEnvironment {
+  live: boolean;
+  modeLabel: string;
+  host: string;
+}
+
+export type PaymentCallbackStatus = "success" | "pending" | "failed";
+
+// A payment callback in provider-neutral form. Fields the payload didn't include are null.
+export interface PaymentCallback {
+  eventKey: string; // Identifies the callback across gateway retries
+  orderId: string | null;
+  billCode: string | null;
+  transactionId: string | null;
+  status: PaymentCallbackStatus | null;
+  amount: number | null; // Ringgit, as claimed by the callback
+  reason?: string;
+  transactionTime?: string;
+  error?: string; // Why the callback is malformed
+}
+
+// Result of checking a callback with the gateway; `amount` is the amount the gateway confirmed.
+// `unavailable` means the callback couldn't be checked at all, e.g. the gateway was unreachable,
+// so it should be retried rather than rejected.
+export interface PaymentCallbackVerification {
+  verified: boolean;
+  reason?: string;
+  amount?: number | null;
+  unavailable?: boolean;
+}
+
+export class PaymentProviderError extends Error {}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+
+  /**
+   * Describe the environment bills are created in. Throws when the provider is misconfigured.
+   */
+  getEnvironment(): PaymentEnvironment;
+
+  /**
+   * Create a bill for an order. Throws a PaymentProviderError with a readable message on failure.
+   */
+  createBill(request: PaymentRequest): Promise<CreatedBill>;
+
+  /**
+   * Current payment state of a bill at the gateway
+   */
+  getBillPayment(billCode: string): Promise<GatewayPayment>;
+
+  /**
+   * Read a callback payload without trusting it
+   */
+  parseCallback(payload: Record<string, string>): PaymentCallback;
+
+  /**
+   * Confirm with the gateway that a callback is genuine before it is applied
+   */
+  verifyCallback(payload: Record<string, string>): Promise<PaymentCallbackVerification>;
+}
@@ -0,0 +1,92 @@
+import { Order } from "@/lib/orderService";
+import { Timestamp } from "firebase/firestore";
+
+/**
+ * Payment reconciliation. Callbacks can be lost, so orders with a ToyyibPay bill are compared
+ * against the bill's transactions and every order whose payment status disagrees is listed.
+ */
+
+export const RECONCILIATION_RUNS_COLLECTION = "reconciliationRuns";
+
+// How far back orders are checked; bills older than this are settled one way or the other
+export const RECONCILIATION_WINDOW_DAYS = 30;
+
+export type GatewayPaymentState = "paid" | "pending" | "failed" | "none";
+
+export const GATEWAY_PAYMENT_STATE_LABELS: Record<GatewayPaymentState, string> = {
+  paid: "Paid",
+  pending: "Pending",
+  failed: "Failed",
+  none: "No payment",
+};
+
+// Payment state of a bill at the gateway, with the successful transaction when there is one
+export interface GatewayPayment {
+  state: GatewayPaymentState;
+  transactionId?: string;
+  amount?: number | null;
+}
+
+export type DiscrepancyType = "paid_at_gateway" | "failed_at_gateway" | "unpaid_at_gateway";
+
+export const DISCREPANCY_TYPE_LABELS: Record<DiscrepancyType, string> = {
+  paid_at_gateway: "Paid at gateway, not in Firestore",
+  failed_at_gateway: "Failed at gateway, pending in Firestore",
+  unpaid_at_gateway: "Paid in Firestore, not at gateway",
+};
+
+export interface PaymentDiscrepancy {
+  type: DiscrepancyType;
+  orderDocId: string;
+  orderId: string;
+  customerName: string;
+  billCode: string;
+  orderPaymentStatus: Order["paymentStatus"];
+  orderTotal: number;
+  gateway: GatewayPayment;
+  resolvedAt?: Timestamp;
+  resolvedBy?: string;
+}
+
+export interface ReconciliationRun {
+  id?: string;
+  startedAt: Timestamp;
+  finishedAt: Timestamp;
+  since: Timestamp;
+  triggeredBy: string; // "Scheduled job" or the admin who ran it
+  checked: number;
+  failed: number; // Orders whose bill couldn't be fetched
+  complete: boolean; // False when more orders were in the window than one run checks
+  discrepancies: PaymentDiscrepancy[];
+}
+
+/**
+ * How an order's payment status disagrees with its bill at the gateway, or null when they agree
+ */
+export function getDiscrepancyType(
+  order: Pick<Order, "paymentStatus">,
+  gateway: GatewayPayment,
+): DiscrepancyType | null {
+  if (gateway.state === "paid") {
+    return order.paymentStatus === "success" ? null : "paid_at_gateway";
+  }
+  if (order.paymentStatus === "success") return "unpaid_at_gateway";
+  if (gateway.state === "failed" && order.paymentStatus === "pending") return "failed_at_gateway";
+  return null;
+}
+
+/**
+ * What applying the gateway state does to the order, for the fix button and its confirmation
+ */
+export function describeGatewayFix(discrepancy: Pick<PaymentDiscrepancy, "type" | "gateway">): string {
+  switch (discrepancy.type) {
+    case "paid_at_gateway":
+      return "Mark the order as paid";
+    case "failed_at_gateway":
+      return "Mark the payment as failed";
+    case "unpaid_at_gateway":
+      return discrepancy.gateway.state === "pending"
+        ? "Mark the order as pending and return its stock"
+        : "Mark the order as unpaid and return its stock";
+  }
+}
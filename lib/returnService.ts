@@ -0,0 +1,344 @@
+import { collection, doc, getDocs, orderBy, query, runTransaction, Timestamp, where } from "firebase/firestore";
+import { db } from "./firebase";
+import { buildHistoryEntry, diffOrderFields, ORDER_HISTORY_SUBCOLLECTION } from "./orderHistory";
+import { buildRefundUpdate } from "./orderRefunds";
+import {
+  adjustReturnedQuantities,
+  buildReturnItems,
+  describeReturnItems,
+  ExchangeItem,
+  formatReturnNumber,
+  getReturnBlocker,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_TRANSITIONS,
+  ReturnCondition,
+  ReturnEvent,
+  ReturnRequest,
+  ReturnResolution,
+  RETURNS_COLLECTION,
+  ReturnStatus,
+} from "./orderReturns";
+import { Order, OrderService } from "./orderService";
+import { getStockDeltas, getStockReservations, StockDelta } from "./stockReservations";
+
+const ORDERS_COLLECTION = "orders";
+const RETURN_COUNTER_PATH = ["counters", "returns"] as const;
+
+interface ReturnUpdate {
+  updates?: Partial<ReturnRequest>;
+  // Shown on the return's timeline
+  note?: string;
+  // Change to the linked order, recorded in its status history
+  order?: { updates: Partial<Order>; note: string };
+  stock?: Record<string, StockDelta>;
+}
+
+/**
+ * Add up stock deltas that touch the same product
+ */
+function mergeStockDeltas(...deltaSets: Record<string, StockDelta>[]): Record<string, StockDelta> {
+  const merged: Record<string, StockDelta> = {};
+  deltaSets.forEach((deltas) => {
+    Object.entries(deltas).forEach(([productId, delta]) => {
+      const current = merged[productId] ?? { available: 0, reserved: 0 };
+      merged[productId] = {
+        available: current.available + delta.available,
+        reserved: current.reserved + delta.reserved,
+      };
+    });
+  });
+  return merged;
+}
+
+export class ReturnService {
+  /**
+   * Open a return for items on a shipped order. Staff open returns on the customer's behalf
+   * from the admin; the storefront calls this with `requestedBy: "customer"`.
+   */
+  static async createReturn(
+    orderDocId: string,
+    input: {
+      items: { itemKey: string; quantity: number }[];
+      reason: string;
+      requestedBy?: ReturnRequest["requestedBy"];
+    },
+  ): Promise<{ id: string; returnNumber: string }> {
+    const reason = input.reason.trim();
+    if (!reason) {
+      throw new Error("A return reason is required");
+    }
+
+    const context = OrderService.resolveChangeContext();
+    const orderRef = doc(db, ORDERS_COLLECTION, orderDocId);
+    const counterRef = doc(db, ...RETURN_COUNTER_PATH);
+    const returnRef = doc(collection(db, RETURNS_COLLECTION));
+
+    return runTransaction(db, async (transaction) => {
+      const counterSnap = await transaction.get(counterRef);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const order = orderSnap.data() as Order;
+      const blocker = getReturnBlocker(order);
+      if (blocker) {
+        throw new Error(blocker);
+      }
+
+      const items = buildReturnItems(order, input.items);
+      const lastNumber: number = counterSnap.exists() ? counterSnap.data().lastNumber : 0;
+      const returnNumber = formatReturnNumber(lastNumber + 1);
+      const now = Timestamp.now();
+      const event: ReturnEvent = {
+        status: "requested",
+        note: reason,
+        actorId: context.actorId ?? null,
+        actorName: context.actorName || "Admin",
+        createdAt: now,
+      };
+      const request: Omit<ReturnRequest, "id"> = {
+        returnNumber,
+        orderDocId,
+        orderId: order.orderId,
+        userId: order.userId,
+        customerName: order.customerName,
+        customerEmail: order.customerEmail,
+        items,
+        reason,
+        requestedBy: input.requestedBy ?? "staff",
+        status: "requested",
+        events: [event],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      transaction.set(returnRef, request);
+      transaction.update(orderRef, {
+        returnedQuantities: adjustReturnedQuantities(order.returnedQuantities, items, 1),
+        updatedAt: now,
+      });
+      transaction.set(doc(collection(orderRef, ORDER_HISTORY_SUBCOLLECTION)), {
+        ...buildHistoryEntry([], {
+          ...context,
+          note: `Return ${returnNumber} opened for ${describeReturnItems(items)}`,
+        }),
+        createdAt: now,
+      });
+      transaction.set(counterRef, { lastNumber: lastNumber + 1, updatedAt: now });
+
+      return { id: returnRef.id, returnNumber };
+    });
+  }
+
+  /**
+   * Move a return to its next status, together with any order and stock changes, in one transaction.
+   * The builder runs against the latest return and order data and may throw to abort.
+   */
+  private static async applyReturnUpdate(
+    returnId: string,
+    nextStatus: ReturnStatus,
+    buildUpdate: (request: ReturnRequest, order: Order) => ReturnUpdate,
+  ): Promise<void> {
+    const context = OrderService.resolveChangeContext();
+    const returnRef = doc(db, RETURNS_COLLECTION, returnId);
+
+    await runTransaction(db, async (transaction) => {
+      const returnSnap = await transaction.get(returnRef);
+      if (!returnSnap.exists()) {
+        throw new Error("Return not found");
+      }
+
+      const request = returnSnap.data() as ReturnRequest;
+      if (!RETURN_STATUS_TRANSITIONS[request.status].includes(nextStatus)) {
+        throw new Error(
+          `Cannot move a return from ${RETURN_STATUS_LABELS[request.status]} to ${RETURN_STATUS_LABELS[nextStatus]}`,
+        );
+      }
+
+      const orderRef = doc(db, ORDERS_COLLECTION, request.orderDocId);
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists()) {
+        throw new Error("Order not found");
+      }
+
+      const order = orderSnap.data() as Order;
+      const change = buildUpdate(request, order);
+      const stockWrites = change.stock ? await OrderService.readStockUpdates(transaction, change.stock) : [];
+      const now = Timestamp.now();
+      const event: ReturnEvent = {
+        status: nextStatus,
+        ...(change.note && { note: change.note }),
+        actorId: context.actorId ?? null,
+        actorName: context.actorName || "Admin",
+        createdAt: now,
+      };
+
+      stockWrites.forEach(({ ref, update }) => transaction.update(ref, { ...update, updatedAt: now }));
+      transaction.update(returnRef, {
+        ...change.updates,
+        status: nextStatus,
+        events: [...request.events, event],
+        updatedAt: now,
+      });
+
+      if (change.order) {
+        transaction.update(orderRef, { ...change.order.updates, updatedAt: now });
+        transaction.set(doc(collection(orderRef, ORDER_HISTORY_SUBCOLLECTION)), {
+          ...buildHistoryEntry(diffOrderFields(order, change.order.updates), {
+            ...context,
+            note: change.order.note,
+          }),
+          createdAt: now,
+        });
+      }
+    });
+  }
+
+  /**
+   * Approve a return so the customer can send the goods back
+   */
+  static async approveReturn(returnId: string, note?: string): Promise<void> {
+    await this.applyReturnUpdate(returnId, "approved", () => ({ note: note?.trim() || undefined }));
+  }
+
+  /**
+   * Reject a return, freeing its items to be returned again later
+   */
+  static async rejectReturn(returnId: string, note: string): Promise<void> {
+    const trimmedNote = note.trim();
+    if (!trimmedNote) {
+      throw new Error("A reason for rejecting the return is required");
+    }
+
+    await this.applyReturnUpdate(returnId, "rejected", (request, order) => ({
+      note: trimmedNote,
+      order: {
+        updates: { returnedQuantities: adjustReturnedQuantities(order.returnedQuantities, request.items, -1) },
+        note: `Return ${request.returnNumber} rejected: ${trimmedNote}`,
+      },
+    }));
+  }
+
+  /**
+   * Record that the returned goods have arrived
+   */
+  static async markReceived(returnId: string, note?: string): Promise<void> {
+    await this.applyReturnUpdate(returnId, "received", () => ({ note: note?.trim() || undefined }));
+  }
+
+  /**
+   * Record the condition of the returned goods
+   */
+  static async recordInspection(returnId: string, condition: ReturnCondition, notes: string): Promise<void> {
+    await this.applyReturnUpdate(returnId, "inspected", () => ({
+      updates: { condition, ...(notes.trim() && { inspectionNotes: notes.trim() }) },
+      note: notes.trim() || undefined,
+    }));
+  }
+
+  /**
+   * Close an inspected return. Resellable goods go back into stock whichever resolution is chosen;
+   * a refund is recorded against the order for the returned items, and an exchange takes stock
+   * for the replacements.
+   */
+  static async resolveReturn(
+    returnId: string,
+    input: { resolution: ReturnResolution; exchangeItems?: ExchangeItem[]; note?: string },
+  ): Promise<void> {
+    const exchangeItems = (input.exchangeItems ?? []).filter((item) => item.quantity > 0);
+    if (input.resolution === "exchange" && exchangeItems.length === 0) {
+      throw new Error("Add at least one replacement item");
+    }
+
+    const context = OrderService.resolveChangeContext();
+
+    await this.applyReturnUpdate(returnId, "completed", (request, order) => {
+      const restocked = request.condition === "resellable";
+      if (input.resolution === "restock" && !restocked) {
+        throw new Error("Damaged goods can't be restocked. Choose a refund or exchange instead.");
+      }
+
+      const returnedStock = restocked
+        ? getStockDeltas(
+            getStockReservations(request.items.map((item) => ({ id: item.productId, quantity: item.quantity }))),
+            "restock",
+          )
+        : {};
+      const notes = [`Return ${request.returnNumber} completed`];
+      let orderUpdates: Partial<Order> = {};
+      let refundAmount: number | undefined;
+
+      if (input.resolution === "refund") {
+        const { refund, updates } = buildRefundUpdate(
+          order,
+          {
+            type: "partial",
+            reason: `Return ${request.returnNumber}: ${request.reason}`,
+            items: request.items.map((item) => ({ itemKey: item.itemKey, quantity: item.quantity })),
+          },
+          context,
+        );
+        orderUpdates = updates;
+        refundAmount = refund.amount;
+        notes.push(`refunded RM${refund.amount.toFixed(2)}`);
+      }
+      if (input.resolution === "exchange") {
+        notes.push(`replacement sent: ${describeReturnItems(exchangeItems)}`);
+      }
+      if (restocked) {
+        notes.push("items restocked");
+      }
+
+      return {
+        updates: {
+          resolution: input.resolution,
+          restocked,
+          ...(refundAmount !== undefined && { refundAmount }),
+          ...(input.resolution === "exchange" && { exchangeItems }),
+        },
+        note: input.note?.trim() || undefined,
+        order: { updates: orderUpdates, note: notes.join(", ") },
+        stock: mergeStockDeltas(
+          returnedStock,
+          input.resolution === "exchange"
+            ? getStockDeltas(
+                getStockReservations(exchangeItems.map((item) => ({ id: item.productId, quantity: item.quantity }))),
+                "sell",
+              )
+            : {},
+        ),
+      };
+    });
+  }
+
+  /**
+   * Get all returns, newest first
+   */
+  static async getReturns(): Promise<ReturnRequest[]> {
+    try {
+      const q = query(collection(db, RETURNS_COLLECTION), orderBy("createdAt", "desc"));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ReturnRequest);
+    } catch (error) {
+      console.error("Error getting returns:", error);
+      throw new Error("Failed to get returns");
+    }
+  }
+
+  /**
+   * Get the returns opened against an order, newest first
+   */
+  static async getReturnsForOrder(orderDocId: string): Promise<ReturnRequest[]> {
+    try {
+      const q = query(collection(db, RETURNS_COLLECTION), where("orderDocId", "==", orderDocId));
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as ReturnRequest)
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+    } catch (error) {
+      console.error("Error getting order returns:", error);
+      throw new Error("Failed to get returns");
+    }
+  }
+}
@@ -1,6 +1,34 @@
+import {
+  buildHistoryEntry,
+  diffOrderFields,
+  ORDER_HISTORY_SUBCOLLECTION,
+  OrderChangeContext,
+} from "@/lib/orderHistory";
+import { matchesInMemoryFilters, OrderQueryFilters } from "@/lib/orderFilters";
+import { RISK_LEVEL_LABELS, RISK_RULES, RiskSignals, scoreOrderRisk } from "@/lib/orderRisk";
 import { Order } from "@/lib/orderService";
+import { getOrderPaymentProvider } from "@/lib/paymentGateway";
+import { PAYMENT_EVENTS_COLLECTION, PaymentEvent, PaymentEventResult } from "@/lib/paymentEvents";
+import { PaymentProviderId } from "@/lib/paymentProvider";
+import {
+  GatewayPayment,
+  getDiscrepancyType,
+  PaymentDiscrepancy,
+  RECONCILIATION_RUNS_COLLECTION,
+  ReconciliationRun,
+} from "@/lib/paymentReconciliation";
+import {
+  applyStockDelta,
+  getPaymentStockChange,
+  getReleaseStockChange,
+  getStockChangeUpdates,
+  isStockTracked,
+  StockChange,
+  StockLevel,
+} from "@/lib/stockReservations";
 import { cert, getApps, initializeApp } from "firebase-admin/app";
-import { getFirestore } from "firebase-admin/firestore";
+import { getAuth } from "firebase-admin/auth";
+import { FieldPath, FieldValue, getFirestore, Query, Timestamp, Transaction } from "firebase-admin/firestore";
 
 // Initialize Firebase Admin SDK
 function initializeFirebaseAdmin() {
@@ -37,13 +65,170 @@ initializeFirebaseAdmin();
 
 const db = getFirestore();
 
+/**
+ * Read the products a stock change touches and return a function that writes their new levels.
+ * Reads happen straight away so the caller can keep all transaction reads before its writes.
+ */
+async function prepareStockWrites(transaction: Transaction, change: StockChange) {
+  const entries = Object.entries(change.deltas);
+  const refs = entries.map(([productId]) => db.collection("products").doc(productId));
+  const snapshots = refs.length > 0 ? await transaction.getAll(...refs) : [];
+
+  const updates = entries.flatMap(([, delta], index) => {
+    const product = snapshots[index].data() as StockLevel | undefined;
+    if (!isStockTracked(product)) return [];
+    return [{ ref: refs[index], update: applyStockDelta(product, delta, change.allowShortfall) }];
+  });
+
+  return (now: Timestamp) => {
+    updates.forEach(({ ref, update }) => transaction.update(ref, { ...update, updatedAt: now }));
+  };
+}
+
+/**
+ * Apply the filters Firestore can evaluate, matching AdminService.buildOrderConstraints so the
+ * same composite indexes serve both
+ */
+function applyOrderFilters(ordersQuery: Query, filters: OrderQueryFilters): Query {
+  let filtered = ordersQuery;
+
+  if (filters.fulfillmentStatus === "awaiting_shipment") {
+    filtered = filtered
+      .where("paymentStatus", "==", "success")
+      .where("fulfillmentStatus", "in", ["unfulfilled", "processing", "packed"]);
+  } else if (filters.fulfillmentStatus) {
+    filtered = filtered.where("fulfillmentStatus", "==", filters.fulfillmentStatus);
+  }
+
+  if (filters.paymentStatus) {
+    filtered = filtered.where("paymentStatus", "==", filters.paymentStatus);
+  }
+
+  if (filters.dateFrom) {
+    filtered = filtered.where("createdAt", ">=", Timestamp.fromDate(filters.dateFrom));
+  }
+
+  if (filters.dateTo) {
+    filtered = filtered.where("createdAt", "<=", Timestamp.fromDate(filters.dateTo));
+  }
+
+  return filtered;
+}
+
+/**
+ * Whether an order's current bill (or the order itself, when no bill time is recorded) dates
+ * from on or before the cutoff
+ */
+function isBillIssuedBy(order: Order, cutoff: Date): boolean {
+  return (order.billCreatedAt ?? order.createdAt).toMillis() <= cutoff.getTime();
+}
+
+/**
+ * What we know about an order's customer, for risk scoring
+ */
+async function getRiskSignals(order: Order): Promise<RiskSignals> {
+  const ordersRef = db.collection("orders");
+  const [profileSnap, customerOrdersSnap, failedByPhoneSnap] = await Promise.all([
+    db.collection("users").doc(order.userId).get(),
+    ordersRef.where("userId", "==", order.userId).get(),
+    order.customerPhone
+      ? ordersRef.where("customerPhone", "==", order.customerPhone).where("paymentStatus", "==", "failed").count().get()
+      : null,
+  ]);
+
+  const customerOrders = customerOrdersSnap.docs.map((doc) => doc.data() as Order);
+  const windowMs = RISK_RULES.velocityWindowMinutes * 60 * 1000;
+  const createdAt = order.createdAt.toMillis();
+  return {
+    profileEmail: profileSnap.exists ? (profileSnap.get("email") ?? null) : null,
+    failedPaymentsByUser: customerOrders.filter((o) => o.paymentStatus === "failed").length,
+    failedPaymentsByPhone: failedByPhoneSnap?.data().count ?? 0,
+    ordersInWindow: customerOrders.filter((o) => Math.abs(o.createdAt.toMillis() - createdAt) <= windowMs).length,
+  };
+}
+
+// Orders that can still be held, so their risk is still worth keeping current
+const isOpenOrder = (order: Order) =>
+  ["unfulfilled", "processing", "packed"].includes(order.fulfillmentStatus ?? "unfulfilled");
+
+// What a payment status update did: "held" when it was recorded but the paid amount didn't match,
+// "duplicate" when the same callback was already applied, "ignored" when it would undo a payment
+// that already succeeded
+export type PaymentUpdateResult = "applied" | "held" | "duplicate" | "ignored";
+
 export class ServerOrderService {
+  /**
+   * Whether a Firebase ID token belongs to a signed-in admin
+   */
+  static async isAdminToken(idToken: string): Promise<boolean> {
+    return (await this.getAdminFromToken(idToken)) !== null;
+  }
+
+  /**
+   * The admin a Firebase ID token belongs to, named the way order history names client-side
+   * changes, or null when the token isn't an admin's
+   */
+  static async getAdminFromToken(idToken: string): Promise<{ actorId: string; actorName?: string } | null> {
+    try {
+      const { uid, name, email } = await getAuth().verifyIdToken(idToken);
+      const profile = await db.collection("users").doc(uid).get();
+      if (profile.data()?.role !== "admin") return null;
+      return { actorId: uid, actorName: name ?? email };
+    } catch (error) {
+      console.error("Error verifying admin token:", error);
+      return null;
+    }
+  }
+
+  /**
+   * All orders matching the filters, newest first. `complete` is false when more than `max`
+   * orders matched the Firestore filters and the rest were left out.
+   */
+  static async getOrdersForExport(
+    filters: OrderQueryFilters,
+    max: number,
+  ): Promise<{ orders: (Order & { id: string })[]; complete: boolean }> {
+    try {
+      const snapshot = await applyOrderFilters(db.collection("orders"), filters)
+        .orderBy("createdAt", "desc")
+        .limit(max + 1)
+        .get();
+
+      const orders = snapshot.docs
+        .slice(0, max)
+        .map((doc) => ({ id: doc.id, ...(doc.data() as Order) }))
+        .filter((order) => matchesInMemoryFilters(order, filters));
+
+      return { orders, complete: snapshot.size <= max };
+    } catch (error) {
+      console.error("Error getting orders for export:", error);
+      throw new Error(`Failed to get orders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Orders by document ID, newest first, skipping any that no longer exist
+   */
+  static async getOrdersByIds(documentIds: string[]): Promise<(Order & { id: string })[]> {
+    try {
+      if (documentIds.length === 0) return [];
+
+      const snapshots = await db.getAll(...documentIds.map((id) => db.collection("orders").doc(id)));
+      return snapshots
+        .filter((snapshot) => snapshot.exists)
+        .map((snapshot) => ({ id: snapshot.id, ...(snapshot.data() as Order) }))
+        .sort((a, b) => b.createdAt.seconds - a.createdAt.seconds);
+    } catch (error) {
+      console.error("Error getting orders by ID:", error);
+      throw new Error(`Failed to get orders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
   /**
    * Get an order by its orderId (not the document ID)
    */
   static async getOrderByOrderId(orderId: string): Promise<(Order & { id: string }) | null> {
     try {
-
       const ordersRef = db.collection("orders");
       const snapshot = await ordersRef.where("orderId", "==", orderId).limit(1).get();
 
@@ -54,7 +239,6 @@ export class ServerOrderService {
       const doc = snapshot.docs[0];
       const orderData = doc.data() as Order;
 
-
       return {
         id: doc.id,
         ...orderData,
@@ -66,39 +250,510 @@ export class ServerOrderService {
   }
 
   /**
-   * Update order payment status
+   * Update order payment status and append the change to the order history. Pass `eventKey` for
+   * gateway callbacks so a retried callback is only applied once, and `paidAmount` (ringgit) so a
+   * payment that doesn't match the order total puts the order on hold for review. `provider` is
+   * recorded on the order as the provider and payment method of the payment.
    */
   static async updateOrderPaymentStatus(
     documentId: string,
     paymentData: {
-      status: string;
+      status: "success" | "failed";
       transactionId?: string;
       billCode?: string;
       notes?: string;
+      eventKey?: string;
+      paidAmount?: number | null;
+      provider?: PaymentProviderId;
     },
-  ): Promise<void> {
+    context: OrderChangeContext,
+  ): Promise<PaymentUpdateResult> {
     try {
+      const orderRef = db.collection("orders").doc(documentId);
+
+      return await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(orderRef);
+        if (!snapshot.exists) {
+          throw new Error("Order not found");
+        }
+
+        const order = snapshot.data() as Order;
+        if (paymentData.eventKey && order.paymentEventKeys?.includes(paymentData.eventKey)) {
+          return "duplicate";
+        }
+        // A failed attempt arriving after the bill was paid must not mark the order unpaid
+        if (order.paymentStatus === "success") {
+          const samePayment = !paymentData.transactionId || paymentData.transactionId === order.transactionId;
+          if (paymentData.status === "failed") return "ignored";
+          if (samePayment) return "duplicate";
+        }
+
+        const stock = getPaymentStockChange(order, paymentData.status);
+        // A paid order must end up with its stock sold, otherwise the product oversells
+        if (paymentData.status === "success" && !stock && order.stockStatus !== "committed") {
+          console.error(`Payment on order ${order.orderId} did not move stock (stock: ${order.stockStatus})`);
+        }
+        const writeStock = stock ? await prepareStockWrites(transaction, stock) : null;
+        const now = Timestamp.now();
 
+        // Compare in sen so floating point can't hide or invent a difference
+        const paidAmount = paymentData.status === "success" ? (paymentData.paidAmount ?? null) : null;
+        const mismatchReason =
+          paidAmount !== null && Math.round(paidAmount * 100) !== Math.round(order.totalAmount * 100)
+            ? `Amount mismatch: paid RM${paidAmount.toFixed(2)} but the order total is RM${order.totalAmount.toFixed(2)}`
+            : null;
+
+        // A late payment on an expired or cancelled order reopens it; its stock is taken again above
+        const reopenReason =
+          paymentData.status === "success" && order.fulfillmentStatus === "cancelled"
+            ? "Payment arrived after the order was cancelled, so it was reopened for fulfillment"
+            : null;
+
+        const updates: Partial<Order> = {
+          paymentStatus: paymentData.status,
+          // Main status only follows a successful payment
+          ...(paymentData.status === "success" && { status: "success" as const }),
+          // Orders from before fulfillment tracking get the field, so fulfillment filters find them once paid
+          ...((!!reopenReason || !order.fulfillmentStatus) && { fulfillmentStatus: "unfulfilled" as const }),
+          ...(paymentData.transactionId && { transactionId: paymentData.transactionId }),
+          ...(paymentData.billCode && { billCode: paymentData.billCode }),
+          ...(paymentData.provider && { paymentProvider: paymentData.provider, paymentMethod: paymentData.provider }),
+          ...(paymentData.notes && { notes: paymentData.notes }),
+          ...(stock && getStockChangeUpdates(stock)),
+          ...(paidAmount !== null &&
+            mismatchReason && { paidAmount, holdStatus: "on_hold" as const, holdReason: mismatchReason }),
+        };
+
+        writeStock?.(now);
+        transaction.update(orderRef, {
+          ...updates,
+          ...(paymentData.status === "success" && order.paymentStatus !== "success" && { paidAt: now }),
+          ...(paidAmount !== null &&
+            mismatchReason && { amountMismatch: { expected: order.totalAmount, paid: paidAmount, detectedAt: now } }),
+          ...(paymentData.eventKey && { paymentEventKeys: FieldValue.arrayUnion(paymentData.eventKey) }),
+          updatedAt: now,
+        });
+
+        const entry = buildHistoryEntry(diffOrderFields(order, updates), {
+          note: [paymentData.notes, mismatchReason, reopenReason].filter(Boolean).join(". ") || undefined,
+          ...context,
+        });
+        if (entry) {
+          transaction.create(orderRef.collection(ORDER_HISTORY_SUBCOLLECTION).doc(), { ...entry, createdAt: now });
+        }
+        return mismatchReason ? "held" : "applied";
+      });
+    } catch (error) {
+      console.error("Error updating order payment status:", error);
+      throw new Error(`Failed to update order: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Store an incoming payment callback before it is processed and return the event ID
+   */
+  static async logPaymentEvent(
+    event: Omit<PaymentEvent, "id" | "result" | "receivedAt" | "processedAt" | "message">,
+  ): Promise<string> {
+    try {
+      const ref = await db.collection(PAYMENT_EVENTS_COLLECTION).add({
+        ...event,
+        result: "received",
+        receivedAt: Timestamp.now(),
+      });
+      return ref.id;
+    } catch (error) {
+      console.error("Error logging payment event:", error);
+      throw new Error(`Failed to log payment event: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Record what processing did with a payment event. Never throws, so a logging problem can't
+   * change the response the gateway gets.
+   */
+  static async resolvePaymentEvent(eventId: string, result: PaymentEventResult, message?: string): Promise<void> {
+    try {
+      await db
+        .collection(PAYMENT_EVENTS_COLLECTION)
+        .doc(eventId)
+        .update({ result, ...(message && { message }), processedAt: Timestamp.now() });
+    } catch (error) {
+      console.error(`Error resolving payment event ${eventId}:`, error);
+    }
+  }
+
+  /**
+   * Pending orders whose bill was issued before the cutoff, oldest first, so a backlog larger than
+   * `max` is worked through over several runs. Orders without a bill time are measured from when
+   * they were created.
+   */
+  static async getStalePendingOrders(cutoff: Date, max: number): Promise<(Order & { id: string })[]> {
+    try {
+      const pending = db.collection("orders").where("paymentStatus", "==", "pending");
+      const cutoffTime = Timestamp.fromDate(cutoff);
+      const [billedSnapshot, createdSnapshot] = await Promise.all([
+        pending.where("billCreatedAt", "<", cutoffTime).orderBy("billCreatedAt", "asc").limit(max).get(),
+        // Only orders without a bill time are taken from here; re-billed orders are measured by their bill
+        pending.where("createdAt", "<", cutoffTime).orderBy("createdAt", "asc").limit(max).get(),
+      ]);
+
+      const billed = billedSnapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Order) }));
+      const unbilled = createdSnapshot.docs
+        .map((doc) => ({ id: doc.id, ...(doc.data() as Order) }))
+        .filter((order) => !order.billCreatedAt);
+
+      return [...billed, ...unbilled]
+        .sort((a, b) => (a.billCreatedAt ?? a.createdAt).toMillis() - (b.billCreatedAt ?? b.createdAt).toMillis())
+        .slice(0, max);
+    } catch (error) {
+      console.error("Error getting stale pending orders:", error);
+      throw new Error(`Failed to get pending orders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Mark an unpaid order as expired, cancel it and release its stock. Returns false without
+   * changing anything when the order is no longer pending, e.g. a callback paid it meanwhile, or
+   * when a new bill was issued after the cutoff.
+   */
+  static async expireOrder(documentId: string, reason: string, cutoff: Date): Promise<boolean> {
+    try {
       const orderRef = db.collection("orders").doc(documentId);
 
-      await orderRef.update({
-        paymentStatus: paymentData.status,
-        ...(paymentData.transactionId && { transactionId: paymentData.transactionId }),
-        ...(paymentData.billCode && { billCode: paymentData.billCode }),
-        ...(paymentData.notes && { notes: paymentData.notes }),
-        updatedAt: new Date(),
+      return await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(orderRef);
+        if (!snapshot.exists) {
+          throw new Error("Order not found");
+        }
+
+        const order = snapshot.data() as Order;
+        if (order.paymentStatus !== "pending" || !isBillIssuedBy(order, cutoff)) return false;
+
+        const stock = getReleaseStockChange(order);
+        const writeStock = stock ? await prepareStockWrites(transaction, stock) : null;
+        const updates: Partial<Order> = {
+          status: "expired",
+          paymentStatus: "expired",
+          fulfillmentStatus: "cancelled",
+          ...(stock && { stockStatus: stock.stockStatus }),
+        };
+        const now = Timestamp.now();
+
+        writeStock?.(now);
+        transaction.update(orderRef, { ...updates, updatedAt: now });
+
+        const entry = buildHistoryEntry(diffOrderFields(order, updates), { source: "expiry_job", note: reason });
+        if (entry) {
+          transaction.create(orderRef.collection(ORDER_HISTORY_SUBCOLLECTION).doc(), { ...entry, createdAt: now });
+        }
+        return true;
       });
+    } catch (error) {
+      console.error("Error expiring order:", error);
+      throw new Error(`Failed to expire order: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Give every order without a fulfillment status an explicit "unfulfilled", which is how such orders
+   * are already shown. Firestore filters skip documents that lack the field, so until then these
+   * orders are missing from the fulfillment filters and counts. Safe to run repeatedly.
+   */
+  static async backfillFulfillmentStatus(): Promise<{ scanned: number; updated: number }> {
+    // Firestore can't query for a missing field, so every order is read, a page at a time
+    const PAGE_SIZE = 500;
+    let scanned = 0;
+    let updated = 0;
+
+    try {
+      let cursor: string | null = null;
+      while (true) {
+        let pageQuery = db.collection("orders").orderBy(FieldPath.documentId()).select("fulfillmentStatus");
+        if (cursor) pageQuery = pageQuery.startAfter(cursor);
+        const snapshot = await pageQuery.limit(PAGE_SIZE).get();
+        if (snapshot.empty) break;
+
+        const batch = db.batch();
+        const missing = snapshot.docs.filter((doc) => !doc.get("fulfillmentStatus"));
+        missing.forEach((doc) => batch.update(doc.ref, { fulfillmentStatus: "unfulfilled" }));
+        if (missing.length > 0) await batch.commit();
+
+        scanned += snapshot.size;
+        updated += missing.length;
+        cursor = snapshot.docs[snapshot.docs.length - 1].id;
+        if (snapshot.size < PAGE_SIZE) break;
+      }
 
-      // Also update main status if payment is successful
-      if (paymentData.status === "success") {
-        await orderRef.update({
-          status: "success",
+      return { scanned, updated };
+    } catch (error) {
+      console.error("Error backfilling fulfillment status:", error);
+      throw new Error(
+        `Failed to backfill fulfillment status after ${updated} orders: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Orders with a payment bill created on or after `since`, newest first. `complete` is false
+   * when more than `max` orders were created in that window.
+   */
+  static async getOrdersWithBillCode(
+    since: Date,
+    max: number,
+  ): Promise<{ orders: (Order & { id: string })[]; complete: boolean }> {
+    try {
+      const snapshot = await db
+        .collection("orders")
+        .where("createdAt", ">=", Timestamp.fromDate(since))
+        .orderBy("createdAt", "desc")
+        .limit(max + 1)
+        .get();
+
+      const orders = snapshot.docs
+        .slice(0, max)
+        .map((doc) => ({ id: doc.id, ...(doc.data() as Order) }))
+        .filter((order) => !!order.billCode);
+
+      return { orders, complete: snapshot.size <= max };
+    } catch (error) {
+      console.error("Error getting orders with a bill:", error);
+      throw new Error(`Failed to get orders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Compare recent orders with their bills at the payment gateway and store the discrepancies as a
+   * reconciliation run. Orders whose bill can't be fetched are counted and skipped.
+   */
+  static async runPaymentReconciliation(since: Date, max: number, triggeredBy: string): Promise<ReconciliationRun> {
+    const startedAt = Timestamp.now();
+    const { orders, complete } = await this.getOrdersWithBillCode(since, max);
+
+    const discrepancies: PaymentDiscrepancy[] = [];
+    let failed = 0;
+
+    for (const order of orders) {
+      try {
+        const gateway = await getOrderPaymentProvider(order).getBillPayment(order.billCode!);
+        const type = getDiscrepancyType(order, gateway);
+        if (!type) continue;
+
+        discrepancies.push({
+          type,
+          orderDocId: order.id,
+          orderId: order.orderId,
+          customerName: order.customerName,
+          billCode: order.billCode!,
+          orderPaymentStatus: order.paymentStatus,
+          orderTotal: order.totalAmount,
+          gateway,
         });
+      } catch (error) {
+        console.error(`Failed to reconcile order ${order.orderId}:`, error);
+        failed++;
       }
+    }
+
+    const run = {
+      startedAt,
+      finishedAt: Timestamp.now(),
+      since: Timestamp.fromDate(since),
+      triggeredBy,
+      checked: orders.length - failed,
+      failed,
+      complete,
+      discrepancies,
+    };
 
+    try {
+      const ref = await db.collection(RECONCILIATION_RUNS_COLLECTION).add(run);
+      // Admin and client Timestamps are the same on the wire
+      return { id: ref.id, ...run } as unknown as ReconciliationRun;
     } catch (error) {
-      console.error("Error updating order payment status:", error);
+      console.error("Error saving reconciliation run:", error);
+      throw new Error(`Failed to save reconciliation run: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Mark a discrepancy in a reconciliation run as fixed
+   */
+  static async resolveReconciliationDiscrepancy(runId: string, orderDocId: string, resolvedBy: string): Promise<void> {
+    try {
+      const runRef = db.collection(RECONCILIATION_RUNS_COLLECTION).doc(runId);
+
+      await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(runRef);
+        if (!snapshot.exists) {
+          throw new Error("Reconciliation run not found");
+        }
+
+        const run = snapshot.data() as ReconciliationRun;
+        const now = Timestamp.now();
+        transaction.update(runRef, {
+          discrepancies: run.discrepancies.map((discrepancy) =>
+            discrepancy.orderDocId === orderDocId && !discrepancy.resolvedAt
+              ? { ...discrepancy, resolvedAt: now, resolvedBy }
+              : discrepancy,
+          ),
+        });
+      });
+    } catch (error) {
+      console.error("Error resolving reconciliation discrepancy:", error);
+      throw new Error(
+        `Failed to update reconciliation run: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Bring an order's payment status in line with its bill at the gateway and record the change in
+   * the order history. A payment the gateway has no record of is reversed: the order goes back to
+   * pending or failed and committed stock is returned. Returns "ignored" when the order already
+   * agrees with the gateway.
+   */
+  static async applyGatewayPaymentState(
+    documentId: string,
+    gateway: GatewayPayment,
+    context: OrderChangeContext,
+  ): Promise<PaymentUpdateResult> {
+    if (gateway.state === "paid") {
+      return this.updateOrderPaymentStatus(
+        documentId,
+        { status: "success", transactionId: gateway.transactionId, paidAmount: gateway.amount },
+        context,
+      );
+    }
+
+    try {
+      const orderRef = db.collection("orders").doc(documentId);
+
+      const reversed = await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(orderRef);
+        if (!snapshot.exists) {
+          throw new Error("Order not found");
+        }
+
+        const order = snapshot.data() as Order;
+        if (order.paymentStatus !== "success") return false;
+
+        const paymentStatus = gateway.state === "pending" ? "pending" : "failed";
+        const stock = getReleaseStockChange(order);
+        const writeStock = stock ? await prepareStockWrites(transaction, stock) : null;
+        const updates: Partial<Order> = {
+          status: paymentStatus,
+          paymentStatus,
+          ...(stock && { stockStatus: stock.stockStatus }),
+        };
+        const now = Timestamp.now();
+
+        writeStock?.(now);
+        transaction.update(orderRef, { ...updates, updatedAt: now });
+
+        const entry = buildHistoryEntry(diffOrderFields(order, updates), context);
+        if (entry) {
+          transaction.create(orderRef.collection(ORDER_HISTORY_SUBCOLLECTION).doc(), { ...entry, createdAt: now });
+        }
+        return true;
+      });
+      if (reversed) return "applied";
+    } catch (error) {
+      console.error("Error reversing order payment:", error);
       throw new Error(`Failed to update order: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
+
+    if (gateway.state === "failed") {
+      return this.updateOrderPaymentStatus(documentId, { status: "failed" }, context);
+    }
+    return "ignored";
+  }
+
+  /**
+   * Score an order's fraud risk from the customer's profile and order history and save it when it
+   * changed. High-risk orders that haven't shipped are put on hold, unless someone already reviewed
+   * a hold. Returns whether the saved risk changed.
+   */
+  static async assessOrderRisk(documentId: string, context: OrderChangeContext): Promise<boolean> {
+    try {
+      const orderRef = db.collection("orders").doc(documentId);
+      const snapshot = await orderRef.get();
+      if (!snapshot.exists) {
+        throw new Error("Order not found");
+      }
+      const scoredOrder = snapshot.data() as Order;
+      const risk = scoreOrderRisk(scoredOrder, await getRiskSignals(scoredOrder));
+
+      return await db.runTransaction(async (transaction) => {
+        const latestSnapshot = await transaction.get(orderRef);
+        if (!latestSnapshot.exists) {
+          throw new Error("Order not found");
+        }
+
+        const order = latestSnapshot.data() as Order;
+        const unchanged = order.risk?.score === risk.score && order.risk.reasons.join("\n") === risk.reasons.join("\n");
+        if (unchanged) return false;
+
+        const shouldHold = risk.level === "high" && order.holdStatus === undefined && isOpenOrder(order);
+        const holdReason = `${RISK_LEVEL_LABELS.high} (${risk.score}): ${risk.reasons.join("; ")}`;
+        const updates: Partial<Order> = shouldHold ? { holdStatus: "on_hold", holdReason } : {};
+        const now = Timestamp.now();
+
+        transaction.update(orderRef, { ...updates, risk: { ...risk, assessedAt: now }, updatedAt: now });
+
+        const entry = buildHistoryEntry(diffOrderFields(order, updates), {
+          ...context,
+          ...(shouldHold && { note: `Placed on hold automatically. ${holdReason}` }),
+        });
+        if (entry) {
+          transaction.create(orderRef.collection(ORDER_HISTORY_SUBCOLLECTION).doc(), { ...entry, createdAt: now });
+        }
+        return true;
+      });
+    } catch (error) {
+      console.error("Error assessing order risk:", error);
+      throw new Error(`Failed to assess order risk: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  /**
+   * Rescore a customer's orders that haven't shipped, after something that feeds their risk
+   * signals changed, e.g. a payment failed. Returns how many orders' risk changed.
+   */
+  static async assessCustomerOrdersRisk(userId: string, context: OrderChangeContext): Promise<number> {
+    try {
+      const snapshot = await db.collection("orders").where("userId", "==", userId).get();
+      const openOrders = snapshot.docs.filter((doc) => isOpenOrder(doc.data() as Order));
+
+      let changed = 0;
+      for (const doc of openOrders) {
+        if (await this.assessOrderRisk(doc.id, context)) changed++;
+      }
+      return changed;
+    } catch (error) {
+      console.error("Error assessing customer order risk:", error);
+      throw new Error(
+        `Failed to assess customer order risk: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Orders created on or after `since` that haven't shipped, newest first
+   */
+  static async getRecentOpenOrders(since: Date, max: number): Promise<(Order & { id: string })[]> {
+    try {
+      const snapshot = await db
+        .collection("orders")
+        .where("createdAt", ">=", Timestamp.fromDate(since))
+        .orderBy("createdAt", "desc")
+        .limit(max)
+        .get();
+
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Order) })).filter(isOpenOrder);
+    } catch (error) {
+      console.error("Error getting recent open orders:", error);
+      throw new Error(`Failed to get orders: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
   }
 }
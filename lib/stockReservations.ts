@@ -0,0 +1,213 @@
+import { Order, OrderItem } from "@/lib/orderService";
+
+/**
+ * Stock reservation helpers shared by the client (OrderService) and server (ServerOrderService).
+ * Both services do their own Firestore reads and writes inside a transaction and use these
+ * helpers to work out the new stock levels, so the rules are the same on both sides.
+ *
+ * `stock` on a product is what is still available to sell; `reservedStock` is what unpaid
+ * orders are holding. Reserving moves units from `stock` to `reservedStock`, committing
+ * (payment received) drops them from `reservedStock`, and releasing moves them back.
+ * Products without a numeric `stock` field aren't stock-tracked and are left alone.
+ */
+
+export type StockStatus = "reserved" | "committed" | "released";
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  reserved: "Reserved",
+  committed: "Committed",
+  released: "Released",
+};
+
+export interface StockReservation {
+  productId: string;
+  quantity: number;
+}
+
+export interface StockLevel {
+  name?: string;
+  stock?: number;
+  reservedStock?: number;
+}
+
+// Change to apply to one product: `available` moves `stock`, `reserved` moves `reservedStock`
+export interface StockDelta {
+  available: number;
+  reserved: number;
+}
+
+export interface StockUpdate {
+  stock: number;
+  reservedStock: number;
+  availability: "IN STOCK" | "OUT OF STOCK";
+}
+
+/**
+ * Total quantity per product across an order's line items (sizes share one stock count)
+ */
+export function getStockReservations(items: Pick<OrderItem, "id" | "quantity">[]): StockReservation[] {
+  const quantities: Record<string, number> = {};
+  items.forEach((item) => {
+    quantities[item.id] = (quantities[item.id] || 0) + item.quantity;
+  });
+  return Object.entries(quantities).map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/**
+ * Deltas for moving reservations between states
+ */
+export function getStockDeltas(
+  reservations: StockReservation[],
+  action: "reserve" | "commit" | "release" | "restock" | "sell",
+): Record<string, StockDelta> {
+  const deltas: Record<string, StockDelta> = {};
+  reservations.forEach(({ productId, quantity }) => {
+    switch (action) {
+      case "reserve":
+        deltas[productId] = { available: -quantity, reserved: quantity };
+        break;
+      case "commit":
+        deltas[productId] = { available: 0, reserved: -quantity };
+        break;
+      case "release":
+        deltas[productId] = { available: quantity, reserved: -quantity };
+        break;
+      case "restock":
+        // Committed stock coming back, e.g. a paid order cancelled before shipping
+        deltas[productId] = { available: quantity, reserved: 0 };
+        break;
+      case "sell":
+        // Straight to committed, e.g. a paid order whose reservation had already been released
+        deltas[productId] = { available: -quantity, reserved: 0 };
+        break;
+    }
+  });
+  return deltas;
+}
+
+/**
+ * Deltas for changing a reservation from one set of quantities to another, e.g. after an item edit
+ */
+export function getReservationChangeDeltas(
+  before: StockReservation[],
+  after: StockReservation[],
+  status: StockStatus,
+): Record<string, StockDelta> {
+  const deltas: Record<string, StockDelta> = {};
+  const productIds = new Set([...before, ...after].map((reservation) => reservation.productId));
+
+  productIds.forEach((productId) => {
+    const change =
+      (after.find((r) => r.productId === productId)?.quantity ?? 0) -
+      (before.find((r) => r.productId === productId)?.quantity ?? 0);
+    if (change === 0) return;
+
+    deltas[productId] =
+      status === "reserved" ? { available: -change, reserved: change } : { available: -change, reserved: 0 };
+  });
+  return deltas;
+}
+
+/**
+ * Whether a product's stock is tracked at all
+ */
+export function isStockTracked(product: StockLevel | undefined): product is StockLevel & { stock: number } {
+  return typeof product?.stock === "number";
+}
+
+// Thrown when an order asks for more than is available, so callers can show the message as-is
+export class OutOfStockError extends Error {}
+
+/**
+ * New stock levels for a product after a delta. Throws when available stock would go negative,
+ * unless `allowShortfall` is set (used when payment has already been taken and we can't refuse it).
+ */
+export function applyStockDelta(
+  product: StockLevel & { stock: number },
+  delta: StockDelta,
+  allowShortfall: boolean = false,
+): StockUpdate {
+  const nextStock = product.stock + delta.available;
+  if (nextStock < 0 && !allowShortfall) {
+    throw new OutOfStockError(
+      product.stock > 0
+        ? `Only ${product.stock} left of ${product.name ?? "this product"}`
+        : `${product.name ?? "A product"} is out of stock`,
+    );
+  }
+
+  const stock = Math.max(0, nextStock);
+  return {
+    stock,
+    reservedStock: Math.max(0, (product.reservedStock ?? 0) + delta.reserved),
+    availability: stock > 0 ? "IN STOCK" : "OUT OF STOCK",
+  };
+}
+
+export interface StockChange {
+  deltas: Record<string, StockDelta>;
+  stockStatus: StockStatus;
+  allowShortfall?: boolean;
+  reservations?: StockReservation[]; // Set when the order had no reservations recorded yet
+}
+
+/**
+ * Order fields to write alongside a stock change
+ */
+export function getStockChangeUpdates(change: StockChange): Pick<Order, "stockStatus" | "stockReservations"> {
+  return {
+    stockStatus: change.stockStatus,
+    ...(change.reservations && { stockReservations: change.reservations }),
+  };
+}
+
+/**
+ * Stock movement when a payment result arrives, or null when stock doesn't need to move
+ */
+export function getPaymentStockChange(
+  order: Pick<Order, "stockStatus" | "stockReservations" | "items">,
+  paymentStatus: "success" | "failed",
+): StockChange | null {
+  const reservations = order.stockReservations ?? [];
+
+  if (paymentStatus === "success") {
+    if (!order.stockStatus) {
+      // Storefront and legacy orders hold no reservation, so their stock is sold when payment lands
+      const itemReservations = getStockReservations(order.items);
+      return {
+        deltas: getStockDeltas(itemReservations, "sell"),
+        stockStatus: "committed",
+        allowShortfall: true,
+        reservations: itemReservations,
+      };
+    }
+    if (order.stockStatus === "reserved") {
+      return { deltas: getStockDeltas(reservations, "commit"), stockStatus: "committed" };
+    }
+    if (order.stockStatus === "released") {
+      // Paid after the reservation was released; the money is taken, so sell even if it oversells
+      return { deltas: getStockDeltas(reservations, "sell"), stockStatus: "committed", allowShortfall: true };
+    }
+    return null;
+  }
+
+  if (order.stockStatus === "reserved") {
+    return { deltas: getStockDeltas(reservations, "release"), stockStatus: "released" };
+  }
+  return null;
+}
+
+/**
+ * Stock movement when an order is cancelled or expires, or null when nothing is held
+ */
+export function getReleaseStockChange(order: Pick<Order, "stockStatus" | "stockReservations">): StockChange | null {
+  const reservations = order.stockReservations ?? [];
+
+  if (order.stockStatus === "reserved") {
+    return { deltas: getStockDeltas(reservations, "release"), stockStatus: "released" };
+  }
+  if (order.stockStatus === "committed") {
+    return { deltas: getStockDeltas(reservations, "restock"), stockStatus: "released" };
+  }
+  return null;
+}
@@ -1,3 +1,10 @@
+import { BILL_EXPIRY_DAYS, roundCurrency } from "@/lib/orderConstants";
+import { getPaymentEventKey } from "@/lib/paymentEvents";
+import { PaymentCallbackStatus, PaymentProvider, PaymentProviderError, PaymentRequest } from "@/lib/paymentProvider";
+import { GatewayPayment } from "@/lib/paymentReconciliation";
+import { getToyyibPayConfig, TOYYIBPAY_MODE_LABELS } from "@/lib/toyyibpayConfig";
+import { createHash, timingSafeEqual } from "crypto";
+
 export interface ToyyibPayBill {
   billName: string;
   billDescription: string;
@@ -19,18 +26,32 @@ export interface ToyyibPayBill {
   billExpiryDays?: number;
 }
 
-export interface PaymentData {
-  orderId: string;
-  amount: number;
-  customerName: string;
-  customerEmail: string;
-  customerPhone: string;
-  items: {
-    name: string;
-    price: number;
-    quantity: number;
-    size?: string;
-  }[];
+// A payment attempt on a bill, as returned by getBillTransactions
+export interface ToyyibPayTransaction {
+  billpaymentStatus: string; // 1 = success, 2 = pending, 3 = failed
+  billpaymentInvoiceNo?: string;
+  billpaymentAmount?: string;
+  billPaymentDate?: string;
+  [key: string]: unknown;
+}
+
+// Result of checking a payment callback; `reason` says why an unverified callback was rejected, and
+// `unavailable` that it couldn't be checked, e.g. because ToyyibPay couldn't be reached
+export interface CallbackVerification {
+  verified: boolean;
+  reason?: string;
+  unavailable?: boolean;
+  transaction?: ToyyibPayTransaction;
+}
+
+/**
+ * Parse an amount reported by ToyyibPay. Callbacks and bill transactions report ringgit
+ * (e.g. "529.00"), unlike billAmount, which is sent in sen when creating a bill.
+ */
+export function parseToyyibPayAmount(amount?: string | null): number | null {
+  if (!amount) return null;
+  const ringgit = parseFloat(amount.replace(/[^0-9.]/g, ""));
+  return isNaN(ringgit) ? null : roundCurrency(ringgit);
 }
 
 export interface ToyyibPayResponse {
@@ -47,14 +68,15 @@ export interface ToyyibPayResponse {
  * ToyyibPay Service for handling payment operations
  */
 export class ToyyibPayService {
-  private static readonly BASE_URL = "https://dev.toyyibpay.com";
-  private static readonly SECRET_KEY = process.env.TOYYIBPAY_SECRET_KEY;
-  private static readonly CATEGORY_CODE = process.env.TOYYIBPAY_CATEGORY_CODE;
+  // Validated when the server starts (see instrumentation.ts); throws if the configuration is invalid
+  private static get config() {
+    return getToyyibPayConfig();
+  }
 
   /**
    * Generate bill description from items
    */
-  private static generateBillDescription(items: PaymentData["items"]): string {
+  private static generateBillDescription(items: PaymentRequest["items"]): string {
     if (items.length === 1) {
       return `${items[0].name} (Qty: ${items[0].quantity})`;
     }
@@ -67,23 +89,21 @@ export class ToyyibPayService {
   /**
    * Create a new bill for payment
    */
-  static async createBill(paymentData: PaymentData): Promise<ToyyibPayResponse> {
+  static async createBill(paymentData: PaymentRequest): Promise<ToyyibPayResponse> {
     try {
-      if (!this.SECRET_KEY || !this.CATEGORY_CODE) {
-        throw new Error("ToyyibPay configuration is missing. Please check your environment variables.");
-      }
+      const { baseUrl, secretKey, categoryCode, returnUrl, callbackUrl } = this.config;
 
       // Create bill data matching the PHP example structure
       const billData = {
-        userSecretKey: this.SECRET_KEY,
-        categoryCode: this.CATEGORY_CODE,
+        userSecretKey: secretKey,
+        categoryCode,
         billName: `Order #${paymentData.orderId}`,
         billDescription: this.generateBillDescription(paymentData.items),
         billPriceSetting: 0, // Dynamic price (matching PHP example)
         billPayorInfo: 1, // Required
         billAmount: Math.round(paymentData.amount * 100), // Convert to sen (cents)
-        billReturnUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/payment/success`,
-        billCallbackUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/api/payment/callback`,
+        billReturnUrl: returnUrl,
+        billCallbackUrl: callbackUrl,
         billExternalReferenceNo: paymentData.orderId,
         billTo: paymentData.customerName,
         billEmail: paymentData.customerEmail,
@@ -93,7 +113,7 @@ export class ToyyibPayService {
         billPaymentChannel: "0", // All channels
         billContentEmail: `Thank you for purchasing our product! Order #${paymentData.orderId}`,
         billChargeToCustomer: 1,
-        billExpiryDays: 3,
+        billExpiryDays: BILL_EXPIRY_DAYS,
       };
 
       const formData = new FormData();
@@ -105,7 +125,7 @@ export class ToyyibPayService {
         }
       });
 
-      const response = await fetch(`${this.BASE_URL}/index.php/api/createBill`, {
+      const response = await fetch(`${baseUrl}/index.php/api/createBill`, {
         method: "POST",
         body: formData,
       });
@@ -143,7 +163,7 @@ export class ToyyibPayService {
           message: "Bill created successfully",
           data: {
             BillCode: result[0].BillCode,
-            BillpaymentUrl: `${this.BASE_URL}/${result[0].BillCode}`,
+            BillpaymentUrl: `${baseUrl}/${result[0].BillCode}`,
           },
         };
       } else {
@@ -168,15 +188,13 @@ export class ToyyibPayService {
    */
   static async getBillTransactions(billCode: string): Promise<unknown> {
     try {
-      if (!this.SECRET_KEY) {
-        throw new Error("ToyyibPay secret key is missing");
-      }
+      const { baseUrl, secretKey } = this.config;
 
       const formData = new FormData();
-      formData.append("userSecretKey", this.SECRET_KEY);
+      formData.append("userSecretKey", secretKey);
       formData.append("billCode", billCode);
 
-      const response = await fetch(`${this.BASE_URL}/index.php/api/getBillTransactions`, {
+      const response = await fetch(`${baseUrl}/index.php/api/getBillTransactions`, {
         method: "POST",
         body: formData,
       });
@@ -209,26 +227,155 @@ export class ToyyibPayService {
   }
 
   /**
-   * Verify payment callback signature
+   * A bill's transactions. Throws when ToyyibPay answers with anything but a list, e.g. an error
+   * message, so the bill is never mistaken for one without payments.
    */
-  static verifyCallback(data: Record<string, unknown>, signature: string): boolean {
-    // Log the callback data for debugging
+  private static async getTransactionList(billCode: string): Promise<ToyyibPayTransaction[]> {
+    const response = await this.getBillTransactions(billCode);
+    if (!Array.isArray(response)) {
+      throw new PaymentProviderError(
+        `Unexpected getBillTransactions response for bill ${billCode}: ${JSON.stringify(response).substring(0, 200)}`,
+      );
+    }
+    return response as ToyyibPayTransaction[];
+  }
 
-    // For now, we'll do basic validation
-    // In production, you should implement proper signature verification
-    // based on ToyyibPay's documentation
+  /**
+   * Payment state of a bill at ToyyibPay. One successful transaction means the bill is paid,
+   * however many attempts failed around it.
+   */
+  static async getBillPayment(billCode: string): Promise<GatewayPayment> {
+    const transactions = await this.getTransactionList(billCode);
 
-    // Check if required fields are present
-    const requiredFields = ["refno", "status", "billcode", "order_id"];
-    const hasRequiredFields = requiredFields.every((field) => data[field] !== undefined);
+    const paid = transactions.find((transaction) => transaction.billpaymentStatus === "1");
+    if (paid) {
+      return {
+        state: "paid",
+        ...(paid.billpaymentInvoiceNo && { transactionId: paid.billpaymentInvoiceNo }),
+        amount: parseToyyibPayAmount(paid.billpaymentAmount),
+      };
+    }
+    if (transactions.some((transaction) => transaction.billpaymentStatus === "2")) return { state: "pending" };
+    if (transactions.some((transaction) => transaction.billpaymentStatus === "3")) return { state: "failed" };
+    return { state: "none" };
+  }
+
+  /**
+   * Verify a payment callback before trusting it. The hash ToyyibPay sends proves the callback was
+   * signed with our secret key, and the bill's transactions are then fetched from ToyyibPay to
+   * confirm the payment exists with the status the callback claims.
+   */
+  static async verifyCallback(data: Record<string, string>): Promise<CallbackVerification> {
+    const { refno, status, billcode, order_id, hash } = data;
+
+    if (!refno || !status || !billcode || !order_id) {
+      return { verified: false, reason: "Missing required callback fields" };
+    }
+
+    let secretKey: string;
+    try {
+      secretKey = this.config.secretKey;
+    } catch (error) {
+      return {
+        verified: false,
+        unavailable: true,
+        reason: error instanceof Error ? error.message : "ToyyibPay is not configured",
+      };
+    }
 
-    if (!hasRequiredFields) {
-      console.error("Missing required callback fields");
-      return false;
+    if (!hash) {
+      return { verified: false, reason: "Missing callback hash" };
     }
 
-    // TODO: Implement actual signature verification based on ToyyibPay docs
-    // For now, return true if basic validation passes
-    return true;
+    const expectedHash = createHash("md5").update(`${secretKey}${status}${order_id}${refno}ok`).digest("hex");
+    // timingSafeEqual throws on buffers of different lengths, which a multi-byte hash could give
+    const received = Buffer.from(hash.toLowerCase());
+    const expected = Buffer.from(expectedHash);
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return { verified: false, reason: "Callback hash does not match" };
+    }
+
+    let transactions: ToyyibPayTransaction[];
+    try {
+      transactions = await this.getTransactionList(billcode);
+    } catch (error) {
+      return {
+        verified: false,
+        unavailable: true,
+        reason: `Could not confirm bill with ToyyibPay: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+
+    const transaction = transactions.find((t) => t.billpaymentInvoiceNo === refno);
+    if (!transaction) {
+      return { verified: false, reason: `No transaction ${refno} on bill ${billcode}` };
+    }
+    if (transaction.billpaymentStatus !== status) {
+      return {
+        verified: false,
+        reason: `Transaction status ${transaction.billpaymentStatus} does not match callback status ${status}`,
+      };
+    }
+
+    return { verified: true, transaction };
   }
 }
+
+// ToyyibPay reports 1 = success, 2 = pending, 3 = failed
+const CALLBACK_STATUSES: Record<string, PaymentCallbackStatus> = { "1": "success", "2": "pending", "3": "failed" };
+
+/**
+ * ToyyibPay as a payment provider
+ */
+export const toyyibPayProvider: PaymentProvider = {
+  id: "toyyibpay",
+
+  getEnvironment() {
+    const { mode, baseUrl } = getToyyibPayConfig();
+    return { live: mode === "production", modeLabel: TOYYIBPAY_MODE_LABELS[mode], host: new URL(baseUrl).host };
+  },
+
+  async createBill(request) {
+    const result = await ToyyibPayService.createBill(request);
+    if (!result.success || !result.data) {
+      console.error("ToyyibPay error:", result.error);
+      throw new PaymentProviderError(result.message || "Failed to create bill");
+    }
+    return { billCode: result.data.BillCode, paymentUrl: result.data.BillpaymentUrl };
+  },
+
+  getBillPayment(billCode) {
+    return ToyyibPayService.getBillPayment(billCode);
+  },
+
+  parseCallback(payload) {
+    const { refno, status, reason, billcode, order_id, amount, transaction_time } = payload;
+
+    const callback = {
+      eventKey: getPaymentEventKey(payload),
+      orderId: order_id || null,
+      billCode: billcode || null,
+      transactionId: refno || null,
+      status: CALLBACK_STATUSES[status] ?? null,
+      amount: parseToyyibPayAmount(amount),
+      reason,
+      transactionTime: transaction_time,
+    };
+
+    if (!refno || !status || !billcode || !order_id) {
+      return { ...callback, error: "Missing required callback parameters" };
+    }
+    if (!callback.status) {
+      return { ...callback, error: `Invalid payment status: ${status}` };
+    }
+    if (amount && isNaN(parseFloat(amount))) {
+      return { ...callback, error: `Invalid amount format: ${amount}` };
+    }
+    return callback;
+  },
+
+  async verifyCallback(payload) {
+    const { verified, reason, unavailable, transaction } = await ToyyibPayService.verifyCallback(payload);
+    return { verified, reason, unavailable, amount: parseToyyibPayAmount(transaction?.billpaymentAmount) };
+  },
+};
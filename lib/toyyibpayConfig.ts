@@ -0,0 +1,119 @@
+/**
+ * ToyyibPay gateway configuration, read from environment variables:
+ *
+ * - `TOYYIBPAY_MODE`: "sandbox" or "production". Defaults to sandbox outside production builds.
+ * - `TOYYIBPAY_SECRET_KEY`, `TOYYIBPAY_CATEGORY_CODE`: from the ToyyibPay account for that mode.
+ * - `TOYYIBPAY_BASE_URL`: optional, overrides the mode's default host.
+ * - `TOYYIBPAY_RETURN_URL`, `TOYYIBPAY_CALLBACK_URL`: optional, default to the payment success
+ *   page and callback route under `NEXT_PUBLIC_BASE_URL`.
+ */
+
+export type ToyyibPayMode = "sandbox" | "production";
+
+export const TOYYIBPAY_MODE_LABELS: Record<ToyyibPayMode, string> = {
+  sandbox: "Sandbox",
+  production: "Live",
+};
+
+export const TOYYIBPAY_BASE_URLS: Record<ToyyibPayMode, string> = {
+  sandbox: "https://dev.toyyibpay.com",
+  production: "https://toyyibpay.com",
+};
+
+export interface ToyyibPayConfig {
+  mode: ToyyibPayMode;
+  baseUrl: string;
+  secretKey: string;
+  categoryCode: string;
+  returnUrl: string;
+  callbackUrl: string;
+}
+
+export class ToyyibPayConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid ToyyibPay configuration: ${problems.join("; ")}`);
+  }
+}
+
+/**
+ * Parse an absolute http(s) URL, or null when the value isn't one
+ */
+function parseUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and validate the configuration. Throws a ToyyibPayConfigError listing every problem, so a
+ * misconfigured deployment fails at startup instead of on the first payment.
+ */
+export function loadToyyibPayConfig(env: NodeJS.ProcessEnv = process.env): ToyyibPayConfig {
+  const problems: string[] = [];
+
+  const mode = env.TOYYIBPAY_MODE || (env.NODE_ENV === "production" ? undefined : "sandbox");
+  if (mode !== "sandbox" && mode !== "production") {
+    problems.push(
+      mode ? `TOYYIBPAY_MODE must be "sandbox" or "production", got "${mode}"` : "TOYYIBPAY_MODE is not set",
+    );
+  }
+
+  const secretKey = env.TOYYIBPAY_SECRET_KEY ?? "";
+  const categoryCode = env.TOYYIBPAY_CATEGORY_CODE ?? "";
+  if (!secretKey) problems.push("TOYYIBPAY_SECRET_KEY is not set");
+  if (!categoryCode) problems.push("TOYYIBPAY_CATEGORY_CODE is not set");
+
+  const appUrl = env.NEXT_PUBLIC_BASE_URL?.replace(/\/$/, "");
+  const urls = {
+    TOYYIBPAY_BASE_URL:
+      env.TOYYIBPAY_BASE_URL || (mode === "production" ? TOYYIBPAY_BASE_URLS.production : TOYYIBPAY_BASE_URLS.sandbox),
+    TOYYIBPAY_RETURN_URL: env.TOYYIBPAY_RETURN_URL || (appUrl && `${appUrl}/payment/success`),
+    TOYYIBPAY_CALLBACK_URL: env.TOYYIBPAY_CALLBACK_URL || (appUrl && `${appUrl}/api/payment/callback`),
+  };
+
+  Object.entries(urls).forEach(([name, value]) => {
+    if (!value) {
+      problems.push(`${name} is not set and there is no NEXT_PUBLIC_BASE_URL to derive it from`);
+      return;
+    }
+    const url = parseUrl(value);
+    if (!url) {
+      problems.push(`${name} must be an absolute http(s) URL, got "${value}"`);
+    } else if (mode === "production" && url.protocol !== "https:") {
+      problems.push(`${name} must use https in production mode`);
+    } else if (mode === "production" && ["localhost", "127.0.0.1"].includes(url.hostname)) {
+      problems.push(`${name} points at ${url.hostname}, which ToyyibPay can't reach in production mode`);
+    }
+  });
+
+  // Live keys don't work against the sandbox host and vice versa, so catch a half-switched setup
+  if (mode === "production" && parseUrl(urls.TOYYIBPAY_BASE_URL)?.hostname === "dev.toyyibpay.com") {
+    problems.push("TOYYIBPAY_BASE_URL points at the sandbox host in production mode");
+  }
+
+  if (problems.length > 0) {
+    throw new ToyyibPayConfigError(problems);
+  }
+
+  return {
+    mode: mode as ToyyibPayMode,
+    baseUrl: urls.TOYYIBPAY_BASE_URL.replace(/\/$/, ""),
+    secretKey,
+    categoryCode,
+    returnUrl: urls.TOYYIBPAY_RETURN_URL!,
+    callbackUrl: urls.TOYYIBPAY_CALLBACK_URL!,
+  };
+}
+
+let config: ToyyibPayConfig | null = null;
+
+/**
+ * The validated configuration, read once per server process
+ */
+export function getToyyibPayConfig(): ToyyibPayConfig {
+  if (!config) config = loadToyyibPayConfig();
+  return config;
+}
@@ -1,6 +1,18 @@
 import { db } from "@/lib/firebase";
 import { User } from "firebase/auth";
-import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, Timestamp, updateDoc } from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
 
 export interface UserProfile {
   uid: string;
@@ -213,6 +225,53 @@ export class UserService {
     }
   }
 
+  // Build a customer profile from the admin (e.g. for phone or walk-in orders) without saving it;
+  // the order it's for saves it. The customer has no login until they sign up themselves.
+  static buildCustomerProfile(data: CreateUserProfileData & { email: string }): UserProfile {
+    return {
+      uid: doc(collection(db, "users")).id,
+      email: data.email.trim(),
+      firstName: data.firstName.trim(),
+      lastName: data.lastName.trim(),
+      phoneNumber: data.phoneNumber.trim(),
+      gender: data.gender,
+      role: "user",
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+  }
+
+  // Find a profile by email, as typed or lowercased
+  static async findUserByEmail(email: string): Promise<UserProfile | null> {
+    const value = email.trim();
+    if (!value) return null;
+
+    try {
+      const usersQuery = query(
+        collection(db, "users"),
+        where("email", "in", Array.from(new Set([value, value.toLowerCase()]))),
+        limit(1),
+      );
+      const querySnapshot = await getDocs(usersQuery);
+      return querySnapshot.empty ? null : (querySnapshot.docs[0].data() as UserProfile);
+    } catch (error) {
+      console.error("Error finding user by email:", error);
+      throw error;
+    }
+  }
+
+  // Get all admin users, e.g. for @mentions in order comments
+  static async getAdminUsers(): Promise<UserProfile[]> {
+    try {
+      const adminsQuery = query(collection(db, "users"), where("role", "==", "admin"));
+      const querySnapshot = await getDocs(adminsQuery);
+      return querySnapshot.docs.map((doc) => doc.data() as UserProfile);
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+      throw error;
+    }
+  }
+
   // Get users with pagination
   static async getUsersWithPagination(limit: number = 50): Promise<{
     users: UserProfile[];